@@ -3,10 +3,34 @@ import {
   createAgentApp,
   AgentKitConfig,
 } from "@lucid-agents/agent-kit";
-import { Account, Contract, RpcProvider, shortString, num } from "starknet";
-import { config, validateConfig, logConfig } from "./config";
-import { ERC20_ABI } from "./erc20-abi";
-import { STARKNET_TOKENS, getTokenSymbol as getStarknetTokenSymbol } from "./starknet-token-addresses";
+import { config, validateConfig, logConfig, Network } from "./config";
+import { getLiquiditySnapshot } from "./liquidity";
+import { logger } from "./logger";
+import { registerEntrypointKey } from "./metrics";
+import { getPoolDetails } from "./pool-state";
+import { matchesPoolFilter, PoolFilter, validatePoolFilter } from "./pool-filters";
+import {
+  getLatestPools,
+  listedPoolSchema,
+  liquiditySchema,
+  poolQuerySchema,
+  poolRiskSchema,
+  queryPools,
+  rankedPoolSchema,
+  swapActivitySchema,
+  toListedPools,
+  toLiquidityOutput,
+  toRankedPools,
+  toSwapActivityOutput,
+  usdValuesSchema,
+} from "./pool-listing";
+import { getPoolsInRange, resolveBlockRange } from "./pool-range";
+import { getPoolUsdValues } from "./prices";
+import { scorePoolRisk } from "./risk";
+import { getStore } from "./store";
+import { getSwapActivity, rankPoolsBySwaps } from "./swap-activity";
+import { getToken } from "./token-registry";
+import { createSubscription, deleteSubscription, getSubscription } from "./webhooks";
 import dotenv from "dotenv";
 
 // Load environment variables
@@ -14,7 +38,8 @@ dotenv.config();
 
 /**
  * Ekubo Market Watcher - Real-time pool monitoring on Starknet.
- * Monitors PoolInitialized events from the Ekubo Core contract.
+ * Monitors PoolInitialized events from the Ekubo Core contract via the
+ * background indexer in src/indexer.ts.
  *
  * Required environment variables:
  *   - PRIVATE_KEY      (used for x402 payments)
@@ -33,7 +58,7 @@ const configOverrides: AgentKitConfig = {
 };
 
 
-const { app, addEntrypoint } = createAgentApp(
+const { app, addEntrypoint: addAgentEntrypoint } = createAgentApp(
   {
     name: "ekubo-market-watcher",
     version: "0.1.0",
@@ -45,555 +70,494 @@ const { app, addEntrypoint } = createAgentApp(
 );
 
 
-console.log(`📝 Agent app created, adding pool monitoring entrypoints...`);
-
-// PoolInitialized event interface based on actual Ekubo Core contract
-interface PoolInitializedEvent {
-  pool_key: {
-    token0: string;
-    token1: string;
-    fee: number;
-    tick_spacing: number;
-    extension: string;
-  };
-  initial_tick: number;
-  sqrt_ratio: string;
-  block_number: number;
-  transaction_hash: string;
-  timestamp: number;
-  description?: string;
-  token0_symbol?: string;
-  token1_symbol?: string;
-}
-
-// Cache for storing recent pools
-const poolCache = new Map<string, PoolInitializedEvent>();
-const lastCacheUpdate = new Map<string, number>();
-// Cache for storing block timestamps to avoid repeated RPC calls
-const blockTimestampCache = new Map<number, number>();
-// Cache for storing token symbols to avoid repeated ERC20 calls
-const tokenSymbolCache = new Map<string, string>();
-
-// RPC Provider setup
-function getRpcProvider(network: string = "mainnet"): RpcProvider {
-  const rpcUrl = network === "testnet"
-    ? config.starknet.testnetRpcUrl
-    : config.starknet.mainnetRpcUrl;
-
-  return new RpcProvider({ nodeUrl: rpcUrl });
-}
-
-// Fetch token symbol with caching
-async function getTokenSymbol(tokenAddress: string, network: string = "mainnet"): Promise<string> {
-  // Check cache first
-  if (tokenSymbolCache.has(tokenAddress)) {
-    return tokenSymbolCache.get(tokenAddress)!;
-  }
-
-  // First try to get symbol from our comprehensive Starknet token mapping
-  // Handle addresses that might be missing the "0x" prefix or have dropped leading zeros
-  let normalizedAddress = tokenAddress.toLowerCase();
-
-  // Ensure address starts with 0x
-  if (!normalizedAddress.startsWith('0x')) {
-    normalizedAddress = '0x' + normalizedAddress;
-  }
-
-  // Remove the 0x prefix for length checking and padding
-  const hexPart = normalizedAddress.slice(2);
-
-  // Pad to full 32 bytes (64 hex characters) if shorter
-  if (hexPart.length < 64) {
-    const paddedHex = hexPart.padStart(64, '0');
-    normalizedAddress = '0x' + paddedHex;
-  }
+// Entrypoint keys are registered as metric labels as they are added (see src/metrics.ts).
+// The cast keeps addAgentEntrypoint's signature, so handler inputs are still inferred from their schemas.
+const addEntrypoint = ((definition: { key: string }) => {
+  registerEntrypointKey(definition.key);
+  return addAgentEntrypoint(definition as Parameters<typeof addAgentEntrypoint>[0]);
+}) as typeof addAgentEntrypoint;
 
-  const mappedSymbol = getStarknetTokenSymbol(normalizedAddress);
+logger.debug("Agent app created, adding pool monitoring entrypoints");
 
-  if (mappedSymbol) {
-    // Cache the result
-    tokenSymbolCache.set(tokenAddress, mappedSymbol);
+// Networks listed in INDEXER_NETWORKS; pools of any other configured network are never indexed
+const networkInputSchema = z.enum(config.indexer.networks as [Network, ...Network[]])
+  .default(config.indexer.networks[0])
+  .describe("Starknet network");
 
-    if (config.logging.level === "debug") {
-      console.debug(`Found token symbol in mapping: ${tokenAddress} -> ${mappedSymbol}`);
-    }
+// Pool filter accepted by the subscription entrypoints (see src/pool-filters.ts)
+const poolFilterSchema = z.object({
+  tokens: z.array(z.string()).optional().describe("Token addresses or verified token symbols; matches pools containing any of them"),
+  fees: z.array(z.string()).optional().describe("Raw pool key fees (0.128 fixed point) to match"),
+  extension: z.string().optional().describe("Extension address to match"),
+});
 
-    return mappedSymbol;
-  }
+logger.debug("Adding entrypoint", { entrypoint: "list-latest-pools" });
+addEntrypoint({
+  key: "list-latest-pools",
+  description: "Returns a list of new pools created in the given timeframe.",
+  input: z.object({
+    minutes: z.string().min(1).max(config.network.maxLookbackMinutes).default("60").describe(`Time window in minutes (1-${config.network.maxLookbackMinutes})`),
+    network: networkInputSchema,
+    finalized_only: z.boolean().default(false).describe("Only return pools whose block has been accepted on L1"),
+    ...poolQuerySchema.shape,
+  }),
+  output: z.object({
+    pools: z.array(listedPoolSchema),
+    count: z.number(),
+    next_cursor: z.string().optional(),
+    timeframe: z.object({
+      minutes: z.number(),
+      network: z.string(),
+    }),
+  }),
+  price: "0.01",
 
-  // If not found in mapping, try to fetch from contract dynamically
-  try {
-    const provider = getRpcProvider(network);
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "list-latest-pools", input });
+    const minutes = parseInt(input.minutes, 10);
+    const latestPools = await getLatestPools(minutes, input.network, { finalizedOnly: input.finalized_only });
+    const { pools, next_cursor } = queryPools(latestPools, input, input.network);
 
-    // Fetch the ABI dynamically from the contract
-    const { abi: tokenAbi } = await provider.getClassAt(tokenAddress, "latest");
-    if (tokenAbi === undefined) {
-      throw new Error('no ABI found for token contract');
-    }
+    return {
+      output: {
+        pools: await toListedPools(pools, input.network),
+        count: pools.length,
+        next_cursor,
+        timeframe: {
+          minutes: minutes,
+          network: input.network
+        }
+      }
+    };
+  },
+});
 
-    const contract = new Contract(tokenAbi, tokenAddress, provider);
+logger.debug("Adding entrypoint", { entrypoint: "list-pools-by-hours" });
+addEntrypoint({
+  key: "list-pools-by-hours",
+  description: "Returns a list of new pools created in the specified number of hours.",
+  input: z.object({
+    hours: z.string().min(1).max(24).default("1").describe("Time window in hours (0.1-24)"),
+    network: networkInputSchema,
+    finalized_only: z.boolean().default(false).describe("Only return pools whose block has been accepted on L1"),
+  }),
+  output: z.object({
+    pools: z.array(listedPoolSchema),
+    count: z.number(),
+    timeframe: z.object({
+      hours: z.number(),
+      minutes: z.number(),
+      network: z.string(),
+    }),
+  }),
+  price: "0.01",
 
-    // Try to call the symbol function directly (common in ERC20 tokens)
-    const symbolResponse = await contract.call('symbol', [], { blockIdentifier: 'latest' });
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "list-pools-by-hours", input });
+    const hours = parseFloat(input.hours);
+    const minutes = Math.ceil(hours * 60);
+    const pools = await getLatestPools(minutes, input.network, { finalizedOnly: input.finalized_only });
 
-    // Helper function to decode felt to string
-    const decodeFeltToString = (felt: bigint): string => {
-      try {
-        // Use shortString.decodeShortString to decode the felt
-        return shortString.decodeShortString(num.toHex(felt));
-      } catch (error) {
-        if (config.logging.level === "debug") {
-          console.debug(`Failed to decode felt ${felt}, using hex fallback:`, error);
+    return {
+      output: {
+        pools: await toListedPools(pools, input.network),
+        count: pools.length,
+        timeframe: {
+          hours: hours,
+          minutes: minutes,
+          network: input.network
         }
-        return felt.toString();
       }
     };
+  },
+});
 
-    let symbol: string;
-
-    if (symbolResponse && typeof symbolResponse === 'object' && 'data' in symbolResponse) {
-      // Handle Cairo 0 array response style (long string format)
-      try {
-        // First check if data array has meaningful content after filtering zeros
-        if (symbolResponse.data && Array.isArray(symbolResponse.data)) {
-          const filteredData = symbolResponse.data.filter((felt: bigint) => felt !== 0n);
-          if (filteredData.length > 0) {
-            // Convert each felt in the data array to string
-            const longString = filteredData
-              .map((felt: bigint) => decodeFeltToString(felt))
-              .join('');
-            symbol = longString;
-          } else if (symbolResponse.pending_word && symbolResponse.pending_word_len > 0) {
-            // Handle pending word when data array is empty
-            symbol = decodeFeltToString(symbolResponse.pending_word);
-          } else {
-            symbol = 'UNKNOWN';
-          }
-        } else if (symbolResponse.pending_word && symbolResponse.pending_word_len > 0) {
-          // Handle pending word when no data array
-          symbol = decodeFeltToString(symbolResponse.pending_word);
-        } else {
-          symbol = 'UNKNOWN';
-        }
-      } catch (error) {
-        if (config.logging.level === "debug") {
-          console.debug(`Failed to decode long string:`, error);
-        }
-        symbol = 'UNKNOWN';
-      }
-    } else if (typeof symbolResponse === 'bigint') {
-      // Direct felt response
-      symbol = decodeFeltToString(symbolResponse);
-    } else if (Array.isArray(symbolResponse) && symbolResponse.length > 0) {
-      // Handle array response (might be a long string split into parts)
-      const longString = symbolResponse
-        .filter((item: any) => item !== 0n && item !== undefined) // Remove empty values
-        .map((item: any) => {
-          if (typeof item === 'bigint') {
-            return decodeFeltToString(item);
-          } else if (typeof item === 'string') {
-            return item;
-          } else {
-            return item?.toString() || '';
-          }
-        })
-        .join('');
-      symbol = longString || 'UNKNOWN';
-    } else {
-      // Fallback to string conversion
-      symbol = symbolResponse?.toString() || 'UNKNOWN';
-    }
+logger.debug("Adding entrypoint", { entrypoint: "list-pools-with-liquidity" });
+addEntrypoint({
+  key: "list-pools-with-liquidity",
+  description: "Returns recently created pools that liquidity has actually been added to, with LP position counts and time to first liquidity.",
+  input: z.object({
+    minutes: z.string().min(1).max(config.network.maxLookbackMinutes).default("60").describe(`Time window in minutes (1-${config.network.maxLookbackMinutes})`),
+    network: networkInputSchema,
+    finalized_only: z.boolean().default(false).describe("Only return pools whose block has been accepted on L1"),
+    min_liquidity: z.string().default("1").describe("Minimum total liquidity across positions, in raw liquidity units"),
+    ...poolQuerySchema.shape,
+  }),
+  output: z.object({
+    pools: z.array(listedPoolSchema),
+    count: z.number(),
+    next_cursor: z.string().optional(),
+    timeframe: z.object({
+      minutes: z.number(),
+      network: z.string(),
+    }),
+  }),
+  price: "0.01",
 
-    // Cache the result
-    tokenSymbolCache.set(tokenAddress, symbol);
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "list-pools-with-liquidity", input });
+    const minutes = parseInt(input.minutes, 10);
+    const latestPools = await getLatestPools(minutes, input.network, { finalizedOnly: input.finalized_only });
+    const { pools, next_cursor } = queryPools(latestPools, input, input.network, { minLiquidity: input.min_liquidity });
 
-    if (config.logging.level === "debug") {
-      console.debug(`Fetched token symbol from contract: ${tokenAddress} -> ${symbol}`);
-    }
+    return {
+      output: {
+        pools: await toListedPools(pools, input.network),
+        count: pools.length,
+        next_cursor,
+        timeframe: {
+          minutes: minutes,
+          network: input.network
+        }
+      }
+    };
+  },
+});
 
-    return symbol;
-  } catch (error) {
-    console.warn(`Failed to fetch symbol for token ${tokenAddress}:`, error);
-    // Return address as fallback
-    const fallback = tokenAddress.slice(0, 6) + "..." + tokenAddress.slice(-4);
-    tokenSymbolCache.set(tokenAddress, fallback);
-    return fallback;
-  }
-}
-
-
-// Fetch PoolInitialized events from the blockchain
-async function fetchPoolInitializedEvents(
-  fromBlock: number,
-  toBlock: number,
-  network: string = "mainnet"
-): Promise<PoolInitializedEvent[]> {
-  const provider = getRpcProvider(network);
-  const contractAddress = config.ekubo.coreAddresses[network as keyof typeof config.ekubo.coreAddresses];
-
-  try {
-    // Get event logs
-    const eventLogs = await provider.getEvents({
-      address: contractAddress,
-      from_block: { block_number: fromBlock },
-      to_block: { block_number: toBlock },
-      keys: [[config.ekubo.eventSelector]], // Event selector from config (nested array)
-      chunk_size: 1000
-    });
+logger.debug("Adding entrypoint", { entrypoint: "top-pools" });
+addEntrypoint({
+  key: "top-pools",
+  description: "Ranks recently created pools by their swap volume, swap count or unique traders over a rolling window.",
+  input: z.object({
+    minutes: z.string().min(1).max(config.network.maxLookbackMinutes).default(String(config.network.maxLookbackMinutes)).describe(`Only rank pools created in the last N minutes (1-${config.network.maxLookbackMinutes})`),
+    network: networkInputSchema,
+    window: z.enum(["1h", "24h", "7d"]).default("24h").describe("Rolling window the ranking is computed over"),
+    rank_by: z.enum(["volume", "swap_count", "unique_traders"]).default("volume").describe("Ranking criterion"),
+    quote_token: z.string().default("ETH").describe("Token (address, or symbol of a verified token) volumes are measured in; only pools containing it are ranked by volume"),
+    known_tokens_only: z.boolean().default(false).describe("Only rank pools whose tokens are both in the verified token list"),
+    max_risk: z.number().min(0).max(100).optional().describe("Only rank pools with at most this risk score (0-100)"),
+    limit: z.number().int().min(1).max(100).default(20).describe("Number of pools to return (1-100)"),
+  }),
+  output: z.object({
+    pools: z.array(rankedPoolSchema),
+    count: z.number(),
+    window: z.string(),
+    rank_by: z.string(),
+    network: z.string(),
+  }),
+  price: "0.01",
 
-    const pools: PoolInitializedEvent[] = [];
-    const uniqueBlockNumbers = [...new Set(eventLogs.events.map(e => e.block_number))];
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "top-pools", input });
+    const minutes = parseInt(input.minutes, 10);
+    const filter: PoolFilter = { knownTokensOnly: input.known_tokens_only, maxRisk: input.max_risk };
+    validatePoolFilter(filter);
 
-    // Fetch block timestamps in batch (with caching)
-    const blockTimestamps = new Map<number, number>();
-    const uncachedBlockNumbers: number[] = [];
+    const latestPools = await getLatestPools(minutes, input.network);
+    const candidates = latestPools.filter(pool => matchesPoolFilter(pool, filter, input.network));
+    const ranked = await rankPoolsBySwaps(input.network, candidates, input.window, input.rank_by, input.quote_token);
+    const top = ranked.slice(0, input.limit);
 
-    // Check cache first
-    for (const blockNumber of uniqueBlockNumbers) {
-      if (blockTimestampCache.has(blockNumber)) {
-        blockTimestamps.set(blockNumber, blockTimestampCache.get(blockNumber)!);
-      } else {
-        uncachedBlockNumbers.push(blockNumber);
+    return {
+      output: {
+        pools: await toRankedPools(top, input.network),
+        count: top.length,
+        window: input.window,
+        rank_by: input.rank_by,
+        network: input.network
       }
-    }
+    };
+  },
+});
 
-    // Fetch only uncached block timestamps
-    if (uncachedBlockNumbers.length > 0) {
-      if (config.logging.level === "debug") {
-        console.debug(`Fetching timestamps for ${uncachedBlockNumbers.length} uncached blocks`);
-      }
+logger.debug("Adding entrypoint", { entrypoint: "list-pools-in-range" });
+addEntrypoint({
+  key: "list-pools-in-range",
+  description: "Returns the pools created in a block range or between two points in time, including history older than the live index.",
+  input: z.object({
+    from_block: z.number().int().min(0).optional().describe("First block of the range"),
+    to_block: z.number().int().min(0).optional().describe("Last block of the range (defaults to the chain head)"),
+    from: z.string().optional().describe("Start of the range as an ISO 8601 timestamp, used when from_block is not set"),
+    to: z.string().optional().describe("End of the range as an ISO 8601 timestamp, used when to_block is not set"),
+    network: networkInputSchema,
+    finalized_only: z.boolean().default(false).describe("Only return pools whose block has been accepted on L1"),
+    ...poolQuerySchema.shape,
+  }).refine(input => input.from_block !== undefined || input.from !== undefined, {
+    message: "Either from_block or from must be provided",
+  }),
+  output: z.object({
+    pools: z.array(listedPoolSchema),
+    count: z.number(),
+    next_cursor: z.string().optional(),
+    range: z.object({
+      from_block: z.number(),
+      to_block: z.number(),
+      network: z.string(),
+    }),
+    partial: z.boolean().describe("Whether some blocks of the range couldn't be read, so pools may be missing"),
+    failed_ranges: z.array(z.object({
+      from_block: z.number(),
+      to_block: z.number(),
+    })).describe("Blocks that couldn't be read; query them again later"),
+  }),
+  price: "0.01",
 
-      for (const blockNumber of uncachedBlockNumbers) {
-        try {
-          const blockInfo = await provider.getBlock(blockNumber);
-          if (blockInfo?.timestamp) {
-            const timestamp = Number(blockInfo.timestamp);
-            blockTimestamps.set(blockNumber, timestamp);
-            blockTimestampCache.set(blockNumber, timestamp); // Cache for future use
-          }
-        } catch (error) {
-          if (config.logging.level === "debug") {
-            console.debug(`Could not fetch block ${blockNumber} timestamp:`, error);
-          }
-        }
-      }
-    }
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "list-pools-in-range", input });
+    const range = await resolveBlockRange(input.network, {
+      fromBlock: input.from_block,
+      toBlock: input.to_block,
+      from: input.from,
+      to: input.to,
+    });
+    const rangePools = await getPoolsInRange(input.network, range, { finalizedOnly: input.finalized_only });
+    const { pools, next_cursor } = queryPools(rangePools.pools, input, input.network);
 
-    for (const event of eventLogs.events) {
-      const eventData = await extractPoolEventData(event, provider, network, blockTimestamps.get(event.block_number));
-      if (eventData) {
-        pools.push(eventData);
+    return {
+      output: {
+        pools: await toListedPools(pools, input.network),
+        count: pools.length,
+        next_cursor,
+        range: {
+          from_block: range.fromBlock,
+          to_block: range.toBlock,
+          network: input.network
+        },
+        partial: rangePools.failedRanges.length > 0,
+        failed_ranges: rangePools.failedRanges.map(failed => ({ from_block: failed.fromBlock, to_block: failed.toBlock })),
       }
-    }
-
-    if (config.logging.level === "debug") {
-      console.debug(`Found ${pools.length} PoolInitialized events from block ${fromBlock} to ${toBlock} on ${network}`);
-    }
-
-    return pools;
-  } catch (error) {
-    console.error("Error fetching PoolInitialized events:", error);
-    return [];
-  }
-}
-
-// Extract pool data from PoolInitialized event based on actual Ekubo Core structure
-async function extractPoolEventData(event: any, provider: RpcProvider, network: string, blockTimestamp?: number): Promise<PoolInitializedEvent | null> {
-  try {
-    const data = event.data || [];
-    if (data.length < 7) {
-      console.warn("Insufficient event data:", data);
-      return null;
-    }
-
-    const token0Address = data[0] || "0x";
-    const token1Address = data[1] || "0x";
+    };
+  },
+});
 
-    // Fetch token symbols in parallel
-    const [token0Symbol, token1Symbol] = await Promise.all([
-      getTokenSymbol(token0Address, network),
-      getTokenSymbol(token1Address, network)
-    ]);
+logger.debug("Adding entrypoint", { entrypoint: "get-pool" });
+addEntrypoint({
+  key: "get-pool",
+  description: "Returns the live on-chain state of a pool together with its creation metadata.",
+  input: z.object({
+    pool_id: z.string().optional().describe("Pool id as returned by the list entrypoints"),
+    pool_key: z.object({
+      token0: z.string(),
+      token1: z.string(),
+      fee: z.string(),
+      tick_spacing: z.string(),
+      extension: z.string(),
+    }).optional().describe("Full pool key, for pools that have not been indexed"),
+    network: networkInputSchema,
+  }).refine(input => input.pool_id || input.pool_key, {
+    message: "Either pool_id or pool_key must be provided",
+  }),
+  output: z.object({
+    pool_id: z.string(),
+    pool_key: z.object({
+      token0: z.string(),
+      token1: z.string(),
+      fee: z.string(),
+      tick_spacing: z.number(),
+      extension: z.string(),
+    }),
+    state: z.object({
+      sqrt_ratio: z.string(),
+      tick: z.number(),
+      liquidity: z.string(),
+      fees_per_liquidity: z.object({
+        value0: z.string(),
+        value1: z.string(),
+      }),
+      block_number: z.number(),
+    }),
+    created_at: z.object({
+      initial_tick: z.number(),
+      sqrt_ratio: z.string(),
+      block_number: z.number(),
+      block_hash: z.string(),
+      transaction_hash: z.string(),
+      timestamp: z.number(),
+      finality: z.enum(["pending", "accepted_on_l2", "accepted_on_l1"]),
+    }).optional(),
+    description: z.string().optional(),
+    token0_symbol: z.string().optional(),
+    token1_symbol: z.string().optional(),
+    risk: poolRiskSchema.optional().describe("Risk score, for pools whose creation is known"),
+    liquidity: liquiditySchema.optional().describe("LP positions and first liquidity, for indexed pools"),
+    swaps: swapActivitySchema.optional().describe("Rolling swap aggregates, for indexed pools"),
+    usd: usdValuesSchema.optional().describe("USD values, for pools whose creation is known"),
+    network: z.string(),
+  }),
+  price: "0.01",
 
-    // Create pool description
-    const description = `${token0Symbol}-${token1Symbol}`;
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "get-pool", input });
+    const pool = await getPoolDetails(input.network, { poolId: input.pool_id, poolKey: input.pool_key });
+    const liquidity = pool.created && await getLiquiditySnapshot(input.network, pool.created);
+    const swaps = pool.created && await getSwapActivity(input.network, pool.created);
 
     return {
-      pool_key: {
-        token0: token0Address,
-        token1: token1Address,
-        fee: Number(data[2] || "0"),
-        tick_spacing: Number(data[3] || "0"),
-        extension: data[4] || "0x",
-      },
-      initial_tick: Number(data[5] || "0"),
-      sqrt_ratio: data[6] || "0",
-      block_number: Number(event.block_number || 0),
-      transaction_hash: event.transaction_hash || "",
-      timestamp: blockTimestamp || 0,
-      description,
-      token0_symbol: token0Symbol,
-      token1_symbol: token1Symbol
+      output: {
+        pool_id: pool.pool_id,
+        pool_key: pool.pool_key,
+        state: pool.state,
+        created_at: pool.created && {
+          initial_tick: pool.created.initial_tick,
+          sqrt_ratio: pool.created.sqrt_ratio,
+          block_number: pool.created.block_number,
+          block_hash: pool.created.block_hash,
+          transaction_hash: pool.created.transaction_hash,
+          timestamp: pool.created.timestamp,
+          finality: pool.created.finality,
+        },
+        description: pool.created?.description,
+        token0_symbol: pool.created?.token0_symbol,
+        token1_symbol: pool.created?.token1_symbol,
+        risk: pool.created && scorePoolRisk(pool.created, input.network),
+        liquidity: liquidity && toLiquidityOutput(liquidity),
+        swaps: swaps && toSwapActivityOutput(swaps),
+        usd: pool.created && await getPoolUsdValues(input.network, pool.created, liquidity, swaps),
+        network: input.network
+      }
     };
-  } catch (error) {
-    console.error("Error extracting PoolInitialized event data:", error);
-    return null;
-  }
-}
-
-// Get latest pools within specified time window using chunk-based approach
-async function getLatestPools(minutes: number, network: string = "mainnet"): Promise<PoolInitializedEvent[]> {
-  if (minutes < 1 || minutes > config.network.maxLookbackMinutes) {
-    throw new Error(`Minutes must be between 1 and ${config.network.maxLookbackMinutes}`);
-  }
+  },
+});
 
-  const provider = getRpcProvider(network);
-  const currentBlock = await provider.getBlockNumber();
-  const cutoffTimeInSeconds = Math.floor(Date.now() / 1000) - (minutes * 60);
-  const chunkSize = config.network.blockChunkSize;
+logger.debug("Adding entrypoint", { entrypoint: "get-token" });
+addEntrypoint({
+  key: "get-token",
+  description: "Returns the metadata of a token: name, symbol, decimals, total supply and whether it is verified.",
+  input: z.object({
+    address: z.string().describe("Token contract address"),
+    network: networkInputSchema,
+  }),
+  output: z.object({
+    address: z.string(),
+    name: z.string().optional(),
+    symbol: z.string().optional(),
+    decimals: z.number().optional(),
+    total_supply: z.string().optional(),
+    verified: z.boolean(),
+    source: z.enum(["seed", "contract"]),
+    updated_at: z.number(),
+    network: z.string(),
+  }),
+  price: "0.01",
 
-  // Check cache first - use time-based cache key
-  const cacheKey = `${network}-${minutes}`;
-  const lastUpdate = lastCacheUpdate.get(cacheKey) || 0;
-  const now = Date.now();
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "get-token", input });
+    const token = await getToken(input.address, input.network);
 
-  if (poolCache.size > 0 && (now - lastUpdate) < config.cache.ttlMs) {
-    if (config.logging.level === "debug") {
-      console.debug(`Using cached pools for ${network} (${poolCache.size} pools)`);
+    if (!token) {
+      throw new Error(`Could not read token metadata for ${input.address} on ${input.network}`);
     }
-    // Filter cached pools to match the requested timeframe
-    return Array.from(poolCache.values()).filter(pool => pool.timestamp >= cutoffTimeInSeconds);
-  }
 
-  // Search backwards in chunks until the block range is older than our time window
-  let allPools: PoolInitializedEvent[] = [];
-  let fromBlock = Math.max(0, currentBlock - chunkSize);
-  let toBlock = currentBlock;
-
-  if (config.logging.level === "info") {
-    console.log(`🔍 Starting chunk search for pools in last ${minutes} minutes (cutoff: ${cutoffTimeInSeconds})`);
-  }
-
-  while (true) {
-    // Get the timestamp of the toBlock to check if this chunk is too old
-    try {
-      const toBlockInfo = await provider.getBlock(toBlock);
-      if (toBlockInfo && toBlockInfo.timestamp < cutoffTimeInSeconds) {
-        // This block range is older than our time window, we're done
-        if (config.logging.level === "debug") {
-          console.debug(`✅ Block ${toBlock} (timestamp: ${toBlockInfo.timestamp}) is older than cutoff (${cutoffTimeInSeconds}), stopping search`);
-        }
-        break;
-      }
-    } catch (error) {
-      if (config.logging.level === "debug") {
-        console.debug(`Could not get block ${toBlock} info, continuing search`);
+    return {
+      output: {
+        ...token,
+        network: input.network
       }
-    }
-
-    const chunkPools = await fetchPoolInitializedEvents(fromBlock, toBlock, network);
-
-    if (config.logging.level === "debug") {
-      console.debug(`Chunk: Searching blocks ${fromBlock}-${toBlock}, found ${chunkPools.length} pools`);
-    }
+    };
+  },
+});
 
-    // Add pools from this chunk
-    allPools.push(...chunkPools);
+logger.debug("Adding entrypoint", { entrypoint: "subscribe" });
+addEntrypoint({
+  key: "subscribe",
+  description: "Registers a webhook that receives every new pool matching the given filter as a signed POST request.",
+  input: z.object({
+    url: z.string().describe("HTTP(S) URL that receives pool notifications"),
+    network: networkInputSchema,
+    filter: poolFilterSchema.default({}),
+  }),
+  output: z.object({
+    subscription_id: z.string(),
+    secret: z.string(),
+    url: z.string(),
+    network: z.string(),
+    filter: poolFilterSchema,
+    created_at: z.number(),
+  }),
+  price: "0.01",
 
-    // Move to next chunk
-    toBlock = fromBlock - 1;
-    fromBlock = Math.max(0, fromBlock - chunkSize);
+  handler: async ({ input }) => {
+    logger.info("Entrypoint called", { entrypoint: "subscribe", input });
+    const subscription = await createSubscription(input.network, input.url, input.filter);
 
-    // Stop if we've reached the beginning of the blockchain
-    if (fromBlock === 0 && toBlock === 0) {
-      if (config.logging.level === "debug") {
-        console.debug(`🔚 Reached block 0, stopping search`);
+    return {
+      output: {
+        subscription_id: subscription.id,
+        secret: subscription.secret,
+        url: subscription.url,
+        network: subscription.network,
+        filter: subscription.filter,
+        created_at: subscription.created_at
       }
-      break;
-    }
-  }
-
-  // Filter all pools by time
-  const filteredPools = allPools.filter(pool => pool.timestamp >= cutoffTimeInSeconds);
-
-  if (config.logging.level === "info") {
-    console.log(`🔍 Search complete: ${allPools.length} total pools found, ${filteredPools.length} within last ${minutes} minutes`);
-
-    // Debug: Show detailed information about all pools found
-    console.log(`📊 Pool details found:`);
-    allPools.forEach((pool, i) => {
-      const ageHours = (Math.floor(Date.now() / 1000) - pool.timestamp) / 3600;
-      const poolDate = pool.timestamp > 0 ? new Date(pool.timestamp * 1000).toISOString() : 'No timestamp';
-      console.log(`   ${i+1}. Pool: ${pool.transaction_hash.slice(0, 10)}...`);
-      console.log(`      Description: ${pool.description || 'Unknown'}`);
-      console.log(`      Token0: ${pool.token0_symbol || pool.pool_key.token0.slice(0, 10)}... (${pool.pool_key.token0.slice(0, 6)}...)`);
-      console.log(`      Token1: ${pool.token1_symbol || pool.pool_key.token1.slice(0, 10)}... (${pool.pool_key.token1.slice(0, 6)}...)`);
-      console.log(`      Fee: ${pool.pool_key.fee}`);
-      console.log(`      Block: ${pool.block_number}`);
-      console.log(`      Timestamp: ${pool.timestamp}`);
-      console.log(`      Date: ${poolDate}`);
-      console.log(`      Age: ${ageHours.toFixed(1)} hours ago`);
-      console.log(`      Within 24h: ${pool.timestamp >= cutoffTimeInSeconds}`);
-      console.log(`      ------------------------`);
-    });
-  }
-
-  // Update cache with all pools found (not just filtered ones)
-  poolCache.clear();
-  lastCacheUpdate.clear();
-
-  allPools.forEach(pool => {
-    poolCache.set(pool.transaction_hash, pool);
-  });
-  lastCacheUpdate.set(cacheKey, now);
-
-  if (config.logging.level === "info") {
-    console.log(`Updated pool cache for ${network}: ${allPools.length} total pools, ${filteredPools.length} within last ${minutes} minutes`);
-  }
-
-  return filteredPools;
-}
+    };
+  },
+});
 
-console.log(`➕ Adding entrypoint: list-latest-pools`);
+logger.debug("Adding entrypoint", { entrypoint: "get-subscription" });
 addEntrypoint({
-  key: "list-latest-pools",
-  description: "Returns a list of new pools created in the given timeframe.",
+  key: "get-subscription",
+  description: "Returns a webhook subscription together with its dead-lettered deliveries.",
   input: z.object({
-    minutes: z.string().min(1).max(config.network.maxLookbackMinutes).default("60").describe(`Time window in minutes (1-${config.network.maxLookbackMinutes})`),
-    network: z.enum(["mainnet", "testnet"]).default("mainnet").describe("Starknet network"),
+    subscription_id: z.string(),
+    secret: z.string().describe("Secret returned by subscribe"),
   }),
   output: z.object({
-    pools: z.array(z.object({
-      pool_key: z.object({
-        token0: z.string(),
-        token1: z.string(),
-        fee: z.number(),
-        tick_spacing: z.number(),
-        extension: z.string(),
-      }),
-      initial_tick: z.number(),
-      sqrt_ratio: z.string(),
-      block_number: z.number(),
-      transaction_hash: z.string(),
-      timestamp: z.number(),
-      description: z.string().optional(),
-      token0_symbol: z.string().optional(),
-      token1_symbol: z.string().optional(),
+    subscription_id: z.string(),
+    url: z.string(),
+    network: z.string(),
+    filter: poolFilterSchema,
+    created_at: z.number(),
+    dead_letters: z.array(z.object({
+      pool_id: z.string(),
+      attempts: z.number(),
+      last_error: z.string().optional(),
+      created_at: z.number(),
+      updated_at: z.number(),
     })),
-    count: z.number(),
-    timeframe: z.object({
-      minutes: z.number(),
-      network: z.string(),
-    }),
   }),
   price: "0.01",
 
   handler: async ({ input }) => {
-    console.log(`🎯 [list-latest-pools] Called with input:`, input);
-    const minutes = parseInt(input.minutes, 10);
-    const pools = await getLatestPools(minutes, input.network);
+    logger.info("Entrypoint called", { entrypoint: "get-subscription", subscription_id: input.subscription_id });
+    const subscription = getSubscription(input.subscription_id, input.secret);
+    const deadLetters = getStore().getDeadLetters(subscription.id);
 
     return {
       output: {
-        pools: pools.map(pool => ({
-          pool_key: {
-            token0: pool.pool_key.token0,
-            token1: pool.pool_key.token1,
-            fee: pool.pool_key.fee,
-            tick_spacing: pool.pool_key.tick_spacing,
-            extension: pool.pool_key.extension,
-          },
-          initial_tick: pool.initial_tick,
-          sqrt_ratio: pool.sqrt_ratio,
-          block_number: pool.block_number,
-          transaction_hash: pool.transaction_hash,
-          timestamp: pool.timestamp,
-          description: pool.description,
-          token0_symbol: pool.token0_symbol,
-          token1_symbol: pool.token1_symbol
-        })),
-        count: pools.length,
-        timeframe: {
-          minutes: minutes,
-          network: input.network
-        }
+        subscription_id: subscription.id,
+        url: subscription.url,
+        network: subscription.network,
+        filter: subscription.filter,
+        created_at: subscription.created_at,
+        dead_letters: deadLetters.map(delivery => ({
+          pool_id: delivery.pool_id,
+          attempts: delivery.attempts,
+          last_error: delivery.last_error,
+          created_at: delivery.created_at,
+          updated_at: delivery.updated_at
+        }))
       }
     };
   },
 });
 
-console.log(`➕ Adding entrypoint: list-pools-by-hours`);
+logger.debug("Adding entrypoint", { entrypoint: "unsubscribe" });
 addEntrypoint({
-  key: "list-pools-by-hours",
-  description: "Returns a list of new pools created in the specified number of hours.",
+  key: "unsubscribe",
+  description: "Removes a webhook subscription and its pending deliveries.",
   input: z.object({
-    hours: z.string().min(1).max(24).default("1").describe("Time window in hours (0.1-24)"),
-    network: z.enum(["mainnet", "testnet"]).default("mainnet").describe("Starknet network (mainnet/sepolia)"),
+    subscription_id: z.string(),
+    secret: z.string().describe("Secret returned by subscribe"),
   }),
   output: z.object({
-    pools: z.array(z.object({
-      pool_key: z.object({
-        token0: z.string(),
-        token1: z.string(),
-        fee: z.number(),
-        tick_spacing: z.number(),
-        extension: z.string(),
-      }),
-      initial_tick: z.number(),
-      sqrt_ratio: z.string(),
-      created_at: z.object({
-        block_number: z.number(),
-        transaction_hash: z.string(),
-        timestamp: z.number(),
-      }),
-    })),
-    count: z.number(),
-    timeframe: z.object({
-      hours: z.number(),
-      minutes: z.number(),
-      network: z.string(),
-    }),
+    subscription_id: z.string(),
+    removed: z.boolean(),
   }),
   price: "0.01",
 
   handler: async ({ input }) => {
-    console.log(`🎯 [list-pools-by-hours] Called with input:`, input);
-    const hours = parseFloat(input.hours);
-    const minutes = Math.ceil(hours * 60);
-    const pools = await getLatestPools(minutes, input.network);
+    logger.info("Entrypoint called", { entrypoint: "unsubscribe", subscription_id: input.subscription_id });
+    deleteSubscription(input.subscription_id, input.secret);
 
     return {
       output: {
-        pools: pools.map(pool => ({
-          pool_key: {
-            token0: pool.pool_key.token0,
-            token1: pool.pool_key.token1,
-            fee: pool.pool_key.fee,
-            tick_spacing: pool.pool_key.tick_spacing,
-            extension: pool.pool_key.extension,
-          },
-          initial_tick: pool.initial_tick,
-          sqrt_ratio: pool.sqrt_ratio,
-          created_at: {
-            block_number: pool.block_number,
-            transaction_hash: pool.transaction_hash,
-            timestamp: pool.timestamp
-          },
-          description: pool.description,
-          token0_symbol: pool.token0_symbol,
-          token1_symbol: pool.token1_symbol
-        })),
-        count: pools.length,
-        timeframe: {
-          hours: hours,
-          minutes: minutes,
-          network: input.network
-        }
+        subscription_id: input.subscription_id,
+        removed: true
       }
     };
   },
 });
 
-console.log(`✅ All entrypoints added successfully!`);
+logger.info("Agent entrypoints added");
 
 export { app };
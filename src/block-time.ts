@@ -0,0 +1,210 @@
+import { config, Network } from "./config";
+import { mapWithConcurrency } from "./event-fetcher";
+import { logger } from "./logger";
+import { recordCacheLookup } from "./metrics";
+import { getRpcProvider, sendRpcBatch } from "./rpc";
+import { getStore, setBounded } from "./store";
+
+/**
+ * Block headers, and the mapping between wall-clock time and block numbers.
+ *
+ * Headers are fetched as JSON-RPC batches of BLOCK_BATCH_SIZE blocks,
+ * BLOCK_FETCH_CONCURRENCY batches at a time, falling back to one request per
+ * block for endpoints that don't accept batches. Concurrent lookups of the
+ * same block share one request.
+ *
+ * Block timestamps are read through an in-memory cache and the store, so the
+ * searches used to resolve timestamps to blocks get cheaper as they touch the
+ * same blocks again. Those searches interpolate between the timestamps they
+ * already know, since block times are roughly regular, and fall back to
+ * bisection every other step so an irregular stretch can't slow them down.
+ */
+
+export interface BlockHeader {
+  block_number: number;
+  block_hash: string;
+  // Unix seconds
+  timestamp: number;
+  // Starknet block status, e.g. ACCEPTED_ON_L2
+  status: string;
+}
+
+// The fields we read from starknet_getBlockWithTxHashes
+interface RawBlock {
+  block_hash?: string;
+  timestamp?: number;
+  status?: string;
+}
+
+// In-memory cache for block timestamps in front of the store, keyed by network and block number
+const timestampCache = new Map<string, number>();
+// Header lookups in flight, keyed like the cache
+const pendingHeaders = new Map<string, Promise<BlockHeader | undefined>>();
+
+// Timestamp (unix seconds) of a block
+export async function getBlockTimestamp(network: Network, blockNumber: number): Promise<number> {
+  const timestamps = await getBlockTimestamps(network, [blockNumber]);
+  const timestamp = timestamps.get(blockNumber);
+  if (timestamp === undefined) {
+    throw new Error(`Could not read block ${blockNumber} on ${network}`);
+  }
+  return timestamp;
+}
+
+// Timestamps of several blocks, fetching only the ones that aren't cached. Blocks that can't be read are left out.
+export async function getBlockTimestamps(network: Network, blockNumbers: number[]): Promise<Map<number, number>> {
+  const timestamps = new Map<number, number>();
+  const uncached: number[] = [];
+
+  for (const blockNumber of new Set(blockNumbers)) {
+    const cached = getCachedBlockTimestamp(network, blockNumber);
+    if (cached !== undefined) {
+      timestamps.set(blockNumber, cached);
+    } else {
+      uncached.push(blockNumber);
+    }
+  }
+
+  for (const [blockNumber, header] of await getBlockHeaders(network, uncached)) {
+    timestamps.set(blockNumber, header.timestamp);
+  }
+
+  return timestamps;
+}
+
+// Timestamp of a block if it has been seen before, without any RPC calls
+export function getCachedBlockTimestamp(network: Network, blockNumber: number): number | undefined {
+  const cacheKey = `${network}:${blockNumber}`;
+  const cached = timestampCache.get(cacheKey) ?? getStore().getBlockTimestamp(network, blockNumber);
+  if (cached !== undefined) {
+    setBounded(timestampCache, cacheKey, cached);
+  }
+  recordCacheLookup("block_timestamps", cached !== undefined);
+  return cached;
+}
+
+// Current headers of blocks, always fetched since hashes and statuses change. Blocks that can't be read are left out.
+export async function getBlockHeaders(network: Network, blockNumbers: number[]): Promise<Map<number, BlockHeader>> {
+  const lookups = new Map<number, Promise<BlockHeader | undefined>>();
+  const toFetch: number[] = [];
+
+  for (const blockNumber of new Set(blockNumbers)) {
+    const pending = pendingHeaders.get(`${network}:${blockNumber}`);
+    if (pending) {
+      lookups.set(blockNumber, pending);
+    } else {
+      toFetch.push(blockNumber);
+    }
+  }
+
+  const batches: number[][] = [];
+  for (let i = 0; i < toFetch.length; i += config.blocks.batchSize) {
+    batches.push(toFetch.slice(i, i + config.blocks.batchSize));
+  }
+
+  // Each batch waits for a concurrency slot, but its blocks are registered as in flight straight away
+  const fetched = mapWithConcurrency(batches, config.blocks.concurrency, batch => fetchHeaderBatch(network, batch));
+  batches.forEach((batch, index) => {
+    const batchResult = fetched.then(results => results[index]);
+    for (const blockNumber of batch) {
+      const cacheKey = `${network}:${blockNumber}`;
+      const lookup = batchResult.then(headers => headers.get(blockNumber)).finally(() => pendingHeaders.delete(cacheKey));
+      pendingHeaders.set(cacheKey, lookup);
+      lookups.set(blockNumber, lookup);
+    }
+  });
+
+  const headers = new Map<number, BlockHeader>();
+  for (const [blockNumber, lookup] of lookups) {
+    const header = await lookup;
+    if (header) {
+      headers.set(blockNumber, header);
+    }
+  }
+
+  return headers;
+}
+
+// Header of a single block, fetched fresh
+export async function getBlockHeader(network: Network, blockNumber: number): Promise<BlockHeader> {
+  const header = (await getBlockHeaders(network, [blockNumber])).get(blockNumber);
+  if (!header) {
+    throw new Error(`Could not read block ${blockNumber} on ${network}`);
+  }
+  return header;
+}
+
+// First block at or before `head` with a timestamp at or after the given one,
+// or head + 1 if every block is older. Timestamps never decrease, so an interpolation search finds it.
+export async function findFirstBlockAtOrAfter(network: Network, timestamp: number, head: number): Promise<number> {
+  let low = 0;
+  let high = head + 1;
+  // Timestamps just below `low` and at `high`, once known; both ends are read in one batch to seed the interpolation
+  const ends = await getBlockTimestamps(network, [0, head]);
+  let lowTimestamp = ends.get(0);
+  let highTimestamp = ends.get(head);
+  let step = 0;
+
+  while (low < high) {
+    let middle = Math.floor((low + high) / 2);
+    if (step++ % 2 === 0 && lowTimestamp !== undefined && highTimestamp !== undefined && highTimestamp > lowTimestamp) {
+      const guess = low + Math.round(((timestamp - lowTimestamp) / (highTimestamp - lowTimestamp)) * (high - low));
+      middle = Math.min(high - 1, Math.max(low, guess));
+    }
+
+    const middleTimestamp = await getBlockTimestamp(network, middle);
+    if (middleTimestamp >= timestamp) {
+      high = middle;
+      highTimestamp = middleTimestamp;
+    } else {
+      low = middle + 1;
+      lowTimestamp = middleTimestamp;
+    }
+  }
+
+  logger.debug("Resolved timestamp to block", { network, timestamp, block: low, steps: step });
+
+  return low;
+}
+
+// One batch of headers; timestamps are cached on the way, since they never change for a block
+async function fetchHeaderBatch(network: Network, blockNumbers: number[]): Promise<Map<number, BlockHeader>> {
+  const headers = new Map<number, BlockHeader>();
+  let replies: { blockNumber: number; block?: RawBlock; error?: unknown }[];
+
+  try {
+    const batch = await sendRpcBatch(network, blockNumbers.map(blockNumber => ({
+      method: "starknet_getBlockWithTxHashes",
+      params: { block_id: { block_number: blockNumber } },
+    })));
+    replies = batch.map((reply, index) => ({ blockNumber: blockNumbers[index], block: reply.result as RawBlock | undefined, error: reply.error }));
+  } catch (error) {
+    logger.debug("Batch header request failed, fetching blocks one by one", { network, blocks: blockNumbers.length, error });
+    const provider = getRpcProvider(network);
+    replies = await Promise.all(blockNumbers.map(blockNumber =>
+      provider.getBlock(blockNumber).then(
+        block => ({ blockNumber, block: block as RawBlock }),
+        (error: unknown) => ({ blockNumber, error })
+      )
+    ));
+  }
+
+  for (const { blockNumber, block, error } of replies) {
+    if (!block?.timestamp) {
+      logger.debug("Could not fetch block", { network, block: blockNumber, error });
+      continue;
+    }
+
+    const header: BlockHeader = {
+      block_number: blockNumber,
+      block_hash: block.block_hash ?? "",
+      timestamp: Number(block.timestamp),
+      status: block.status ?? "PENDING",
+    };
+    headers.set(blockNumber, header);
+    setBounded(timestampCache, `${network}:${blockNumber}`, header.timestamp);
+    getStore().saveBlockTimestamp(network, blockNumber, header.timestamp);
+  }
+
+  return headers;
+}
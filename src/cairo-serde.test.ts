@@ -0,0 +1,58 @@
+import { expect, test } from "bun:test";
+import events from "../fixtures/events/pool-initialized.json";
+import { createFeltReader, decodePoolInitialized } from "./cairo-serde";
+
+// Hand-written PoolInitialized events in the shape starknet_getEvents returns them, not read from mainnet (see the README)
+const { negative_tick: negativeTick, large_sqrt_ratio: largeSqrtRatio } = events;
+
+test("decodes a PoolInitialized event with a negative initial tick", () => {
+  expect(decodePoolInitialized(negativeTick.data)).toEqual({
+    pool_key: {
+      token0: "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+      token1: "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+      fee: "170141183460469235273462165868118016",
+      tick_spacing: 1000,
+      extension: "0x0",
+    },
+    initial_tick: -19624663,
+    sqrt_ratio: "18638036203897893299752713599320064",
+  });
+});
+
+test("decodes a sqrt_ratio whose high limb is set", () => {
+  const { initial_tick, sqrt_ratio } = decodePoolInitialized(largeSqrtRatio.data);
+
+  // USDC (6 decimals) / DAI (18 decimals) at par
+  expect(initial_tick).toBe(27631035);
+  expect(sqrt_ratio).toBe("340282378199606545014812632690073608367636480");
+  expect(BigInt(sqrt_ratio) >> 128n).toBe(1_000_000n);
+});
+
+test("rejects payloads of the wrong length", () => {
+  expect(() => decodePoolInitialized(negativeTick.data.slice(0, -1))).toThrow("Data too short: needed more than 8 felts");
+  expect(() => decodePoolInitialized([])).toThrow("Data too short");
+  expect(() => decodePoolInitialized([...negativeTick.data, "0x0"])).toThrow("Data too long: read 9 of 10 felts");
+});
+
+test("rejects felts out of range for their type", () => {
+  const withFelt = (index: number, felt: string) => negativeTick.data.map((value, i) => i === index ? felt : value);
+
+  // The fee is a u128
+  expect(() => decodePoolInitialized(withFelt(2, `0x${(1n << 128n).toString(16)}`))).toThrow("Felt 2 is not a u128");
+  // The tick's sign is a bool
+  expect(() => decodePoolInitialized(withFelt(6, "0x2"))).toThrow("Felt 6 is not a bool: 0x2");
+  // Each u256 limb is a u128, so a sqrt_ratio read as a single felt fails
+  expect(() => decodePoolInitialized(withFelt(7, "0x1396ed16fbecff0000000000000000000000000000"))).toThrow("Felt 7 is not a u128");
+});
+
+test("reads i129 and u256 values from call results", () => {
+  const reader = createFeltReader(["0x5", "0x1", "0x0", "0x1", "0x0", "0x1", "0x1"]);
+
+  expect(reader.i129()).toBe("-5");
+  // Zero magnitude with the sign set is zero
+  expect(reader.tick()).toBe(0);
+  expect(reader.u256()).toBe((1n << 128n).toString());
+  expect(reader.bool()).toBe(true);
+  expect(() => reader.end()).not.toThrow();
+  expect(() => reader.felt()).toThrow("Data too short");
+});
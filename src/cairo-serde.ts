@@ -0,0 +1,123 @@
+import { num } from "starknet";
+
+/**
+ * Cairo serde helpers for decoding felt arrays from events and call results.
+ *
+ *   i129    = mag (u128), sign (bool)
+ *   u256    = low (u128), high (u128)
+ *   PoolKey = token0, token1, fee (u128), tick_spacing (u128), extension
+ *   Delta   = amount0 (i129), amount1 (i129)
+ *   Bounds  = lower (i129), upper (i129)
+ *
+ *   PoolInitialized = pool_key (PoolKey), initial_tick (i129), sqrt_ratio (u256)
+ *
+ * Values are range-checked as they are read (u128 limbs fit in 128 bits,
+ * bools and i129 signs are 0 or 1), so a payload read at the wrong offsets
+ * fails loudly instead of producing plausible-looking numbers.
+ */
+
+const U128_LIMIT = 1n << 128n;
+
+export interface CorePoolKey {
+  token0: string;
+  token1: string;
+  fee: string;
+  tick_spacing: number;
+  extension: string;
+}
+
+export interface Delta {
+  amount0: string;
+  amount1: string;
+}
+
+export interface Bounds {
+  lower: number;
+  upper: number;
+}
+
+export interface PoolInitializedPayload {
+  pool_key: CorePoolKey;
+  initial_tick: number;
+  // 128.128 fixed-point, as a decimal string
+  sqrt_ratio: string;
+}
+
+// Decode the data of Ekubo Core's PoolInitialized event, which must be exactly one PoolInitialized payload
+export function decodePoolInitialized(data: string[]): PoolInitializedPayload {
+  const reader = createFeltReader(data);
+  const payload = {
+    pool_key: reader.poolKey(),
+    initial_tick: reader.tick(),
+    sqrt_ratio: reader.u256(),
+  };
+  reader.end();
+  return payload;
+}
+
+// Sequential reader over the felts of an event payload or call result
+export function createFeltReader(data: string[]) {
+  let offset = 0;
+
+  const next = (): bigint => {
+    if (offset >= data.length) {
+      throw new Error(`Data too short: needed more than ${data.length} felts`);
+    }
+    return BigInt(data[offset++]);
+  };
+
+  const u128 = (): bigint => {
+    const value = next();
+    if (value >= U128_LIMIT) {
+      throw new Error(`Felt ${offset - 1} is not a u128: ${num.toHex(value)}`);
+    }
+    return value;
+  };
+
+  const bool = (): boolean => {
+    const value = next();
+    if (value > 1n) {
+      throw new Error(`Felt ${offset - 1} is not a bool: ${num.toHex(value)}`);
+    }
+    return value === 1n;
+  };
+
+  const i129 = (): bigint => {
+    const mag = u128();
+    return bool() ? -mag : mag;
+  };
+
+  return {
+    felt: (): string => num.toHex(next()),
+    u128: (): string => u128().toString(),
+    bool,
+    i129: (): string => i129().toString(),
+    tick: (): number => Number(i129()),
+    u256: (): string => {
+      const low = u128();
+      const high = u128();
+      return ((high << 128n) + low).toString();
+    },
+    // Fail if any felts were left unread, which means the layout didn't match the data
+    end(): void {
+      if (offset !== data.length) {
+        throw new Error(`Data too long: read ${offset} of ${data.length} felts`);
+      }
+    },
+    poolKey(): CorePoolKey {
+      return {
+        token0: this.felt(),
+        token1: this.felt(),
+        fee: this.u128(),
+        tick_spacing: Number(u128()),
+        extension: this.felt(),
+      };
+    },
+    delta(): Delta {
+      return { amount0: this.i129(), amount1: this.i129() };
+    },
+    bounds(): Bounds {
+      return { lower: this.tick(), upper: this.tick() };
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getConfigIssues, loadConfig } from "./config";
+
+// Config files are written here; loadConfig is given its env and argv, so nothing leaks in from the test process
+let directory: string;
+const ARGV = ["bun", "src/agent.ts"];
+
+beforeAll(() => {
+  directory = mkdtempSync(join(tmpdir(), "ekubo-config-"));
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function writeConfigFile(name: string, text: string): string {
+  const path = join(directory, name);
+  writeFileSync(path, text);
+  return path;
+}
+
+const TOML_FILE = `
+[rpc]
+maxRetries = 5
+mode = "replay"
+
+[events]
+concurrency = 2
+
+[indexer]
+networks = ["mainnet", "devnet"]
+
+[networks.devnet]
+rpcEndpoints = [{ url = "http://localhost:5050", weight = 2 }]
+coreAddress = "0x1"
+`;
+
+test("reads a TOML config file over the defaults", () => {
+  const file = writeConfigFile("watcher.toml", TOML_FILE);
+  const { config, issues } = loadConfig({}, [...ARGV, "--config", file]);
+
+  expect(issues).toEqual([]);
+  expect(config!.rpc).toMatchObject({ maxRetries: 5, mode: "replay", timeoutMs: 30000 });
+  expect(config!.events.concurrency).toBe(2);
+  expect(config!.indexer.networks).toEqual(["mainnet", "devnet"]);
+  expect(config!.networks.devnet.rpcEndpoints).toEqual([{ url: "http://localhost:5050", weight: 2 }]);
+  // Built-in networks are kept alongside the ones the file adds
+  expect(config!.networks.mainnet.coreAddress).toBe("0x00000005dd3D2F4429AF886cD1a3b08289DBcEa99A294197E9eB43b0e0325b4b");
+});
+
+test("environment variables override the config file", () => {
+  const file = writeConfigFile("watcher.toml", TOML_FILE);
+  const { config, issues } = loadConfig({
+    CONFIG_FILE: file,
+    RPC_MAX_RETRIES: "7",
+    INDEXER_NETWORKS: "devnet",
+    STARKNET_RPC_URL: "https://a.example/v1|3, https://b.example/v1",
+    // Empty variables leave the file's value in place
+    EVENTS_FETCH_CONCURRENCY: "",
+  }, ARGV);
+
+  expect(issues).toEqual([]);
+  expect(config!.rpc.maxRetries).toBe(7);
+  expect(config!.indexer.networks).toEqual(["devnet"]);
+  expect(config!.networks.mainnet.rpcEndpoints).toEqual([
+    { url: "https://a.example/v1", weight: 3 },
+    { url: "https://b.example/v1", weight: 1 },
+  ]);
+  expect(config!.events.concurrency).toBe(2);
+});
+
+test("reports every invalid setting with the variable or file it came from", () => {
+  const file = writeConfigFile("invalid.json", JSON.stringify({ events: { concurrency: 0 }, networks: { Devnet: { coreAddress: "0x1" } } }));
+  const { config, issues } = loadConfig({ RPC_MAX_RETRIES: "many", LOG_LEVEL: "verbose" }, [...ARGV, "--config", file]);
+
+  expect(config).toBeUndefined();
+  expect(issues.map(issue => [issue.path, issue.source])).toEqual(expect.arrayContaining([
+    ["rpc.maxRetries", "RPC_MAX_RETRIES"],
+    ["logging.level", "LOG_LEVEL"],
+    ["events.concurrency", file],
+  ]));
+  expect(issues.some(issue => issue.path.startsWith("networks.Devnet") && issue.source === file)).toBe(true);
+
+  const missing = loadConfig({}, [...ARGV, "--config", join(directory, "missing.toml")]);
+  expect(missing.config).toBeUndefined();
+  expect(missing.issues).toEqual([{ path: "", source: join(directory, "missing.toml"), message: expect.stringContaining("Could not read config file") }]);
+});
+
+test("refuses placeholder RPC URLs for indexed networks unless replaying", () => {
+  const live = loadConfig({ INDEXER_NETWORKS: "mainnet,testnet", STARKNET_TESTNET_RPC_URL: "https://testnet.example/rpc" }, ARGV);
+  expect(getConfigIssues(live.config!, live.issues)).toEqual([
+    { path: "networks.mainnet.rpcEndpoints", source: "STARKNET_RPC_URL", message: "Must be configured with a valid RPC URL" },
+  ]);
+
+  const replay = loadConfig({ INDEXER_NETWORKS: "mainnet", RPC_MODE: "replay" }, ARGV);
+  expect(getConfigIssues(replay.config!, replay.issues)).toEqual([]);
+});
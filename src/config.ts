@@ -1,138 +1,481 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
 import { config as dotenvConfig } from "dotenv";
+import { z } from "zod";
+import { configureLogging, logger } from "./logger";
 
 // Load environment variables
 dotenvConfig();
 
-export interface Config {
-  starknet: {
-    mainnetRpcUrl: string;
-    testnetRpcUrl: string;
-  };
-  ekubo: {
-    coreAddresses: {
-      mainnet: string;
-      testnet: string;
-    };
-    eventSelector: string;
-  };
-  cache: {
-    ttlMs: number;
-    maxCacheSize: number;
-  };
-  network: {
-    blocksPerMinute: number;
-    maxLookbackMinutes: number;
-  };
-  logging: {
-    level: "debug" | "info" | "warn" | "error";
-  };
-  agent: {
-    payments: {
-      facilitatorUrl: string;
-      payTo: string;
-      network: string;
-      defaultPrice: string;
-    };
-    paymentNetwork: {
-      paymentNetwork: string;
-      rpcUrl?: string;
-      registerIdentity: boolean;
-    };
-    facilitator: {
-      url: string;
-    };
-    trust: {
-      score: number;
-      description: string;
-      tags: string[];
-    };
-  };
+/**
+ * Service configuration, validated against one zod schema.
+ *
+ * Values are layered, later sources winning:
+ *
+ *   1. the defaults in the schema below
+ *   2. an optional JSON or TOML config file, from CONFIG_FILE or `--config <path>`,
+ *      shaped like the Config type (e.g. `{ "rpc": { "maxRetries": 5 } }`)
+ *   3. environment variables, mapped to config paths in ENV_VARS
+ *
+ * Every Starknet network is a block under `networks` (RPC endpoints, Ekubo
+ * Core address, token list, extension registry, Pragma oracle). mainnet and
+ * testnet are built in; other networks can be added from the config file
+ * without code changes, then indexed by listing them in INDEXER_NETWORKS.
+ *
+ * Importing this module never fails: an invalid configuration falls back to
+ * the defaults, and validateConfig reports every invalid field, with the
+ * environment variable or file it came from, before exiting. Run with
+ * `--print-config` to print the resolved configuration, secrets redacted,
+ * and exit.
+ */
+
+// Name of a block under `networks`
+export type Network = string;
+
+const DEFAULT_MAINNET_RPC_URL = "https://starknet-mainnet.infura.io/v3/YOUR_INFURA_KEY";
+const DEFAULT_TESTNET_RPC_URL = "https://starknet-goerli.infura.io/v3/YOUR_INFURA_KEY";
+
+// Integers may come from env vars as strings
+const int = (min: number, max = Number.MAX_SAFE_INTEGER) => z.coerce.number().int().min(min).max(max);
+const flag = z.preprocess(value => typeof value === "string" ? value === "true" : value, z.boolean());
+const felt = z.string().regex(/^0x[0-9a-fA-F]{1,64}$/, "Expected a 0x-prefixed hex felt");
+// Comma-separated lists from env vars, arrays from config files
+const list = <T extends z.ZodType>(item: T, min = 0) =>
+  z.preprocess(value => typeof value === "string" ? value.split(",").map(entry => entry.trim()).filter(Boolean) : value, z.array(item).min(min));
+
+// An RPC endpoint and its share of the traffic relative to the other endpoints of its network; "url|weight" in env vars
+const rpcEndpointSchema = z.preprocess(value => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  const separator = value.lastIndexOf("|");
+  return separator === -1 ? { url: value } : { url: value.slice(0, separator), weight: value.slice(separator + 1) };
+}, z.object({
+  url: z.string().url(),
+  weight: int(1).default(1),
+}));
+
+export type RpcEndpointConfig = z.infer<typeof rpcEndpointSchema>;
+
+const networkSchema = z.object({
+  rpcEndpoints: list(rpcEndpointSchema, 1),
+  coreAddress: felt,
+  // Token list in the starknet-addresses bridged_tokens format
+  tokenList: z.string().optional(),
+  // Known extensions, see extensions/mainnet.json
+  extensionRegistry: z.string().optional(),
+  pragmaOracle: felt.optional(),
+});
+
+export type NetworkConfig = z.infer<typeof networkSchema>;
+
+export const configSchema = z.object({
+  networks: z.record(z.string().regex(/^[a-z0-9-]+$/, "Network names are lowercase letters, digits and dashes"), networkSchema),
+  rpc: z.object({
+    // Attempts after the first, each on the next endpoint in rotation
+    maxRetries: int(0).default(3),
+    // Doubles after each failed attempt
+    retryBaseMs: int(0).default(250),
+    timeoutMs: int(1).default(30000),
+    // Requests per second sent to any single endpoint
+    rateLimitPerSecond: int(1).default(25),
+    // Consecutive failures after which an endpoint is taken out of rotation until it passes a health check
+    failureThreshold: int(1).default(3),
+    healthCheckIntervalSeconds: int(1, 59).default(30),
+    // Endpoints this many blocks behind the most advanced one are taken out of rotation
+    maxLagBlocks: int(0).default(10),
+    // live sends requests to the endpoints; record also saves every reply to fixturesDir; replay serves saved replies only
+    mode: z.enum(["live", "record", "replay"]).default("live"),
+    fixturesDir: z.string().default("./fixtures/rpc"),
+  }).prefault({}),
+  ekubo: z.object({
+    eventSelector: felt.default("0x25ccf80ee62b2ca9b97c76ccea317c7f450fd6efb6ed6ea56da21d7bb9da5f1"),
+  }).prefault({}),
+  cache: z.object({
+    ttlMs: int(0).default(60000),
+    maxCacheSize: int(1).default(1000),
+  }).prefault({}),
+  network: z.object({
+    // Blocks read per indexer and range-query chunk
+    blockChunkSize: int(1).default(10000),
+    maxLookbackMinutes: int(1).default(10080),
+    // Largest block range list-pools-in-range will scan
+    maxRangeBlocks: int(1).default(100000),
+  }).prefault({}),
+  events: z.object({
+    // Events requested per starknet_getEvents page
+    pageSize: int(1).default(1000),
+    // Largest block range requested at once; narrowed automatically when a node rejects a range
+    maxRangeBlocks: int(1).default(10000),
+    // Block ranges read in parallel during backfills and range queries
+    concurrency: int(1).default(4),
+  }).prefault({}),
+  blocks: z.object({
+    // Block headers requested per JSON-RPC batch
+    batchSize: int(1).default(50),
+    // Header batches in flight at once
+    concurrency: int(1).default(4),
+  }).prefault({}),
+  indexer: z.object({
+    networks: list(z.string(), 1).default(["mainnet"]),
+    pollIntervalSeconds: int(1, 59).default(10),
+    // Blocks to re-ingest when the cursor block is replaced
+    reorgDepth: int(1).default(64),
+  }).prefault({}),
+  storage: z.object({
+    databasePath: z.string().default("./data/watcher.db"),
+    // 0 keeps pools forever
+    retentionDays: int(0).default(180),
+  }).prefault({}),
+  tokens: z.object({
+    refreshIntervalMs: int(0).default(86400000),
+    // Doubles after each failed lookup
+    retryBaseMs: int(0).default(60000),
+  }).prefault({}),
+  webhooks: z.object({
+    // Before a delivery becomes a dead letter
+    maxAttempts: int(1).default(8),
+    // Doubles after each failed attempt
+    retryBaseMs: int(0).default(10000),
+    timeoutMs: int(1).default(10000),
+    dispatchIntervalSeconds: int(1, 59).default(5),
+    // Hosts that may resolve to loopback, private or link-local addresses, e.g. a receiver on the same machine
+    allowedHosts: list(z.string().transform(host => host.toLowerCase())).default([]),
+  }).prefault({}),
+  stream: z.object({
+    // Missed pools replayed to a reconnecting /stream/pools client before the stream closes so it reconnects for the rest
+    maxReplayPools: int(1).default(1000),
+    heartbeatIntervalMs: int(1).default(15000),
+  }).prefault({}),
+  swaps: z.object({
+    // Granularity of swap aggregates, and of their window boundaries
+    bucketBlocks: int(1).default(50),
+  }).prefault({}),
+  risk: z.object({
+    // Younger tokens at pool creation are flagged
+    minTokenAgeHours: int(0).default(24),
+    // Pools still empty after this many blocks are flagged
+    liquidityGraceBlocks: int(0).default(600),
+    // Tokens seen from one deployer before it is flagged
+    deployerReuseThreshold: int(2).default(3),
+  }).prefault({}),
+  prices: z.object({
+    // Price sources to try, in order (see src/prices.ts)
+    sources: list(z.enum(["pragma", "pools"])).default(["pragma", "pools"]),
+    // Older oracle prices are ignored
+    maxAgeSeconds: int(0).default(3600),
+    cacheTtlMs: int(0).default(60000),
+    // Listed pools whose liquidity, swaps and USD values are looked up at once
+    concurrency: int(1).default(8),
+  }).prefault({}),
+  logging: z.object({
+    level: z.enum(["debug", "info", "warn", "error"]).default("info"),
+    // json: one JSON object per line; pretty: readable lines for local development
+    format: z.enum(["json", "pretty"]).default("json"),
+  }).prefault({}),
+  agent: z.object({
+    payments: z.object({
+      facilitatorUrl: z.string().url().default("https://facilitator.daydreams.systems"),
+      payTo: z.string().default("0xb308ed39d67D0d4BAe5BC2FAEF60c66BBb6AE429"),
+      network: z.string().default("base"),
+      defaultPrice: z.string().default("1000"),
+    }).prefault({}),
+    paymentNetwork: z.object({
+      paymentNetwork: z.string().default("base-sepolia"),
+      rpcUrl: z.string().url().optional(),
+      registerIdentity: flag.default(false),
+    }).prefault({}),
+    facilitator: z.object({
+      url: z.string().url().default("https://facilitator.daydreams.systems"),
+    }).prefault({}),
+    trust: z.object({
+      score: z.number().default(100),
+      description: z.string().default("Reliable Ekubo pool monitoring service with real-time event detection"),
+      tags: z.array(z.string()).default(["defi", "ekubo", "starknet", "pools", "monitoring"]),
+    }).prefault({}),
+  }).prefault({}),
+}).superRefine((value, context) => {
+  value.indexer.networks.forEach((network, index) => {
+    if (!value.networks[network]) {
+      context.addIssue({
+        code: "custom",
+        path: ["indexer", "networks", index],
+        message: `Unknown network "${network}" (configured: ${Object.keys(value.networks).join(", ")})`,
+      });
+    }
+  });
+});
+
+export type Config = z.infer<typeof configSchema>;
+
+// One invalid setting, with where its value came from
+export interface ConfigIssue {
+  path: string;
+  // Environment variable, config file or "default"
+  source: string;
+  message: string;
 }
 
-export const config: Config = {
-  starknet: {
-    mainnetRpcUrl: process.env.STARKNET_RPC_URL || "https://starknet-mainnet.infura.io/v3/YOUR_INFURA_KEY",
-    testnetRpcUrl: process.env.STARKNET_TESTNET_RPC_URL || "https://starknet-goerli.infura.io/v3/YOUR_INFURA_KEY",
-  },
-  ekubo: {
-    // Actual Ekubo Core contract addresses
-    coreAddresses: {
-      mainnet: process.env.EKUBO_CORE_MAINNET || "0x00000005dd3D2F4429AF886cD1a3b08289DBcEa99A294197E9eB43b0e0325b4b",
-      testnet: process.env.EKUBO_CORE_TESTNET || "0x0444a09d96389aa7148f1aada508e30b71299ffe650d9c97fdaae38cb9a23384",
-    },
-    eventSelector: process.env.POOL_INITIALIZED_EVENT_SELECTOR || "0x25ccf80ee62b2ca9b97c76ccea317c7f450fd6efb6ed6ea56da21d7bb9da5f1",
-  },
-  cache: {
-    ttlMs: parseInt(process.env.CACHE_TTL_MS || "60000"), // 60 seconds
-    maxCacheSize: parseInt(process.env.MAX_POOL_CACHE_SIZE || "1000"),
+// Built-in networks; a config file can override any of their fields or add networks
+const BUILT_IN_NETWORKS = {
+  mainnet: {
+    rpcEndpoints: DEFAULT_MAINNET_RPC_URL,
+    coreAddress: "0x00000005dd3D2F4429AF886cD1a3b08289DBcEa99A294197E9eB43b0e0325b4b",
+    tokenList: "./tokens/mainnet.json",
+    extensionRegistry: "./extensions/mainnet.json",
+    pragmaOracle: "0x2a85bd616f912537c50a49a4076db02c00b29b2cdc8a197ce92ed1837fa875b",
   },
-  network: {
-    blockChunkSize: parseInt(process.env.BLOCK_CHUNK_SIZE || "10000"), // Blocks to search in each iteration
-    maxLookbackMinutes: parseInt(process.env.MAX_LOOKBACK_MINUTES || "10080"), // 7 days
-  },
-  logging: {
-    level: (process.env.LOG_LEVEL as "debug" | "info" | "warn" | "error") || "info",
-  },
-  agent: {
-    payments: {
-      facilitatorUrl: process.env.FACILITATOR_URL ?? "https://facilitator.daydreams.systems",
-      payTo: process.env.PAY_TO as `0x${string}` ?? "0xb308ed39d67D0d4BAe5BC2FAEF60c66BBb6AE429",
-      network: process.env.NETWORK ?? "base",
-      defaultPrice: process.env.DEFAULT_PRICE ?? "1000",
-    },
-    paymentNetwork: {
-      paymentNetwork: process.env.NETWORK || "base-sepolia",
-      rpcUrl: process.env.RPC_URL,
-      registerIdentity: process.env.REGISTER_IDENTITY === "true",
-    },
-    facilitator: {
-      url: process.env.FACILITATOR_URL || "https://facilitator.daydreams.systems",
-    },
-    trust: {
-      score: 100,
-      description: "Reliable Ekubo pool monitoring service with real-time event detection",
-      tags: ["defi", "ekubo", "starknet", "pools", "monitoring"],
-    },
+  testnet: {
+    rpcEndpoints: DEFAULT_TESTNET_RPC_URL,
+    coreAddress: "0x0444a09d96389aa7148f1aada508e30b71299ffe650d9c97fdaae38cb9a23384",
+    pragmaOracle: "0x36031daa264c24520b11d93af622c848b2499b66b41d611bac95e13cfca131a",
   },
 };
 
-// Validation function to ensure required configuration is present
-export function validateConfig(): void {
-  const errors: string[] = [];
+// Environment variables and the config paths they set; a variable may set several paths
+const ENV_VARS: [string, string][] = [
+  ["STARKNET_RPC_URL", "networks.mainnet.rpcEndpoints"],
+  ["STARKNET_TESTNET_RPC_URL", "networks.testnet.rpcEndpoints"],
+  ["EKUBO_CORE_MAINNET", "networks.mainnet.coreAddress"],
+  ["EKUBO_CORE_TESTNET", "networks.testnet.coreAddress"],
+  ["TOKEN_LIST_MAINNET", "networks.mainnet.tokenList"],
+  ["TOKEN_LIST_TESTNET", "networks.testnet.tokenList"],
+  ["EXTENSION_REGISTRY_MAINNET", "networks.mainnet.extensionRegistry"],
+  ["EXTENSION_REGISTRY_TESTNET", "networks.testnet.extensionRegistry"],
+  ["PRAGMA_ORACLE_MAINNET", "networks.mainnet.pragmaOracle"],
+  ["PRAGMA_ORACLE_TESTNET", "networks.testnet.pragmaOracle"],
+  ["RPC_MAX_RETRIES", "rpc.maxRetries"],
+  ["RPC_RETRY_BASE_MS", "rpc.retryBaseMs"],
+  ["RPC_TIMEOUT_MS", "rpc.timeoutMs"],
+  ["RPC_RATE_LIMIT_PER_SECOND", "rpc.rateLimitPerSecond"],
+  ["RPC_FAILURE_THRESHOLD", "rpc.failureThreshold"],
+  ["RPC_HEALTH_CHECK_INTERVAL_SECONDS", "rpc.healthCheckIntervalSeconds"],
+  ["RPC_MAX_LAG_BLOCKS", "rpc.maxLagBlocks"],
+  ["RPC_MODE", "rpc.mode"],
+  ["RPC_FIXTURES_DIR", "rpc.fixturesDir"],
+  ["POOL_INITIALIZED_EVENT_SELECTOR", "ekubo.eventSelector"],
+  ["CACHE_TTL_MS", "cache.ttlMs"],
+  ["MAX_POOL_CACHE_SIZE", "cache.maxCacheSize"],
+  ["BLOCK_CHUNK_SIZE", "network.blockChunkSize"],
+  ["MAX_LOOKBACK_MINUTES", "network.maxLookbackMinutes"],
+  ["MAX_RANGE_BLOCKS", "network.maxRangeBlocks"],
+  ["EVENTS_PAGE_SIZE", "events.pageSize"],
+  ["EVENTS_MAX_RANGE_BLOCKS", "events.maxRangeBlocks"],
+  ["EVENTS_FETCH_CONCURRENCY", "events.concurrency"],
+  ["BLOCK_BATCH_SIZE", "blocks.batchSize"],
+  ["BLOCK_FETCH_CONCURRENCY", "blocks.concurrency"],
+  ["INDEXER_NETWORKS", "indexer.networks"],
+  ["INDEXER_POLL_INTERVAL_SECONDS", "indexer.pollIntervalSeconds"],
+  ["INDEXER_REORG_DEPTH", "indexer.reorgDepth"],
+  ["DATABASE_PATH", "storage.databasePath"],
+  ["POOL_RETENTION_DAYS", "storage.retentionDays"],
+  ["TOKEN_REFRESH_INTERVAL_MS", "tokens.refreshIntervalMs"],
+  ["TOKEN_RETRY_BASE_MS", "tokens.retryBaseMs"],
+  ["WEBHOOK_MAX_ATTEMPTS", "webhooks.maxAttempts"],
+  ["WEBHOOK_RETRY_BASE_MS", "webhooks.retryBaseMs"],
+  ["WEBHOOK_TIMEOUT_MS", "webhooks.timeoutMs"],
+  ["WEBHOOK_DISPATCH_INTERVAL_SECONDS", "webhooks.dispatchIntervalSeconds"],
+  ["WEBHOOK_ALLOWED_HOSTS", "webhooks.allowedHosts"],
+  ["STREAM_MAX_REPLAY_POOLS", "stream.maxReplayPools"],
+  ["STREAM_HEARTBEAT_INTERVAL_MS", "stream.heartbeatIntervalMs"],
+  ["SWAP_BUCKET_BLOCKS", "swaps.bucketBlocks"],
+  ["RISK_MIN_TOKEN_AGE_HOURS", "risk.minTokenAgeHours"],
+  ["RISK_LIQUIDITY_GRACE_BLOCKS", "risk.liquidityGraceBlocks"],
+  ["RISK_DEPLOYER_REUSE_THRESHOLD", "risk.deployerReuseThreshold"],
+  ["PRICE_SOURCES", "prices.sources"],
+  ["PRAGMA_MAX_AGE_SECONDS", "prices.maxAgeSeconds"],
+  ["PRICE_CACHE_TTL_MS", "prices.cacheTtlMs"],
+  ["PRICE_LOOKUP_CONCURRENCY", "prices.concurrency"],
+  ["LOG_LEVEL", "logging.level"],
+  ["LOG_FORMAT", "logging.format"],
+  ["FACILITATOR_URL", "agent.payments.facilitatorUrl"],
+  ["FACILITATOR_URL", "agent.facilitator.url"],
+  ["PAY_TO", "agent.payments.payTo"],
+  ["NETWORK", "agent.payments.network"],
+  ["NETWORK", "agent.paymentNetwork.paymentNetwork"],
+  ["DEFAULT_PRICE", "agent.payments.defaultPrice"],
+  ["RPC_URL", "agent.paymentNetwork.rpcUrl"],
+  ["REGISTER_IDENTITY", "agent.paymentNetwork.registerIdentity"],
+];
+
+// Resolve the configuration from a config file and environment variables
+export function loadConfig(
+  env: Record<string, string | undefined> = process.env,
+  argv: string[] = process.argv
+): { config?: Config; issues: ConfigIssue[] } {
+  const raw: Record<string, unknown> = { networks: structuredClone(BUILT_IN_NETWORKS) };
+  // Where each path was set, for error messages
+  const sources = new Map<string, string>();
+  const issues: ConfigIssue[] = [];
+
+  const configFile = getArgValue(argv, "--config") ?? env.CONFIG_FILE;
+  if (configFile) {
+    try {
+      const text = readFileSync(configFile, "utf-8");
+      const file = extname(configFile) === ".toml" ? Bun.TOML.parse(text) : JSON.parse(text);
+      mergeInto(raw, file as Record<string, unknown>, "", path => sources.set(path, configFile));
+    } catch (error) {
+      issues.push({ path: "", source: configFile, message: `Could not read config file: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
 
-  // Check Starknet RPC URLs
-  if (config.starknet.mainnetRpcUrl.includes("YOUR_INFURA_KEY") || config.starknet.mainnetRpcUrl === "") {
-    errors.push("STARKNET_RPC_URL must be configured with a valid RPC URL");
+  for (const [name, path] of ENV_VARS) {
+    const value = env[name];
+    if (value !== undefined && value !== "") {
+      setPath(raw, path, value);
+      sources.set(path, name);
+    }
   }
 
-  // Check Ekubo Core addresses
-  if (config.ekubo.coreAddresses.mainnet === "0x..." || config.ekubo.coreAddresses.mainnet === "") {
-    errors.push("EKUBO_CORE_MAINNET must be configured with the actual Ekubo Core contract address");
+  const result = configSchema.safeParse(raw);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const path = issue.path.join(".");
+      issues.push({ path, source: findSource(sources, path), message: issue.message });
+    }
+  }
+
+  return { config: issues.length === 0 ? result.data : undefined, issues };
+}
+
+const loaded = loadConfig();
+
+// Invalid settings are reported by validateConfig; until then the defaults stand in
+export const config: Config = loaded.config ?? configSchema.parse({ networks: BUILT_IN_NETWORKS });
+configureLogging(config.logging.level, config.logging.format);
+
+// Settings of a configured network
+export function getNetworkConfig(network: Network): NetworkConfig {
+  const networkConfig = config.networks[network];
+  if (!networkConfig) {
+    throw new Error(`Unknown network "${network}" (configured: ${Object.keys(config.networks).join(", ")})`);
   }
+  return networkConfig;
+}
+
+// Every invalid setting of a resolved configuration: the issues found loading it, and placeholder RPC URLs for indexed networks
+export function getConfigIssues(resolved: Config = config, loadIssues: ConfigIssue[] = loaded.issues): ConfigIssue[] {
+  const issues = [...loadIssues];
 
-  // Check event selector
-  if (!config.ekubo.eventSelector || config.ekubo.eventSelector === "") {
-    errors.push("POOL_INITIALIZED_EVENT_SELECTOR must be configured");
+  // Replays never reach the endpoints
+  if (resolved.rpc.mode !== "replay") {
+    for (const network of resolved.indexer.networks) {
+      if (resolved.networks[network]?.rpcEndpoints.some(endpoint => endpoint.url.includes("YOUR_INFURA_KEY"))) {
+        issues.push({
+          path: `networks.${network}.rpcEndpoints`,
+          source: network === "mainnet" ? "STARKNET_RPC_URL" : network === "testnet" ? "STARKNET_TESTNET_RPC_URL" : "default",
+          message: "Must be configured with a valid RPC URL",
+        });
+      }
+    }
   }
 
-  if (errors.length > 0) {
-    console.error("Configuration validation failed:");
-    errors.forEach(error => console.error(`  - ${error}`));
-    console.error("\nPlease check your .env file and ensure all required configuration is set.");
+  return issues;
+}
+
+// Report every invalid setting and exit
+export function validateConfig(): void {
+  const issues = getConfigIssues();
+  if (issues.length > 0) {
+    logger.error("Configuration validation failed; check your .env file or config file", {
+      issues: issues.map(issue => `${issue.path || "(file)"} [${issue.source}]: ${issue.message}`),
+    });
     process.exit(1);
   }
 }
 
 // Log configuration (without sensitive data)
 export function logConfig(): void {
-  console.log("=== Ekubo Market Watcher Configuration ===");
-  console.log(`Cache TTL: ${config.cache.ttlMs}ms`);
-  console.log(`Max cache size: ${config.cache.maxCacheSize}`);
-  console.log(`Blocks per minute: ${config.network.blocksPerMinute}`);
-  console.log(`Max lookback: ${config.network.maxLookbackMinutes} minutes`);
-  console.log(`Log level: ${config.logging.level}`);
-  console.log(`Starknet mainnet RPC configured: ${!config.starknet.mainnetRpcUrl.includes("YOUR_INFURA_KEY")}`);
-  console.log(`Ekubo Core mainnet address configured: ${config.ekubo.coreAddresses.mainnet !== "0x..."}`);
-  console.log(`PoolInitialized event selector configured: ${!!config.ekubo.eventSelector}`);
-  console.log("==========================================");
-}
\ No newline at end of file
+  logger.info("Configuration loaded", {
+    networks: Object.fromEntries(Object.entries(config.networks).map(([network, settings]) => [network, { rpc_endpoints: settings.rpcEndpoints.length }])),
+    indexed_networks: config.indexer.networks,
+    rpc_mode: config.rpc.mode,
+    rpc_rate_limit_per_second: config.rpc.rateLimitPerSecond,
+    rpc_max_retries: config.rpc.maxRetries,
+    events_concurrency: config.events.concurrency,
+    block_chunk_size: config.network.blockChunkSize,
+    max_lookback_minutes: config.network.maxLookbackMinutes,
+    database: config.storage.databasePath,
+    pool_retention_days: config.storage.retentionDays > 0 ? config.storage.retentionDays : "forever",
+    price_sources: config.prices.sources,
+    log_level: config.logging.level,
+  });
+}
+
+// The resolved configuration with secrets removed: RPC URLs are reduced to their host, since they often embed API keys
+export function getRedactedConfig(): Config {
+  return JSON.parse(JSON.stringify(config, (key, value) => {
+    if (typeof value === "string" && /^https?:\/\//.test(value)) {
+      return redactUrl(value);
+    }
+    if (/secret|password|token$|key$/i.test(key) && typeof value === "string") {
+      return "[redacted]";
+    }
+    return value;
+  })) as Config;
+}
+
+if (process.argv.includes("--print-config")) {
+  console.log(JSON.stringify({ config: getRedactedConfig(), issues: loaded.issues }, null, 2));
+  process.exit(loaded.issues.length > 0 ? 1 : 0);
+}
+
+function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    return url.pathname === "/" && !url.search && !url.username ? `${url.protocol}//${url.host}` : `${url.protocol}//${url.host}/[redacted]`;
+  } catch {
+    return "[redacted]";
+  }
+}
+
+function getArgValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+// Deep-merge plain objects from a config file; arrays and scalars replace what was there
+function mergeInto(target: Record<string, unknown>, source: Record<string, unknown>, prefix: string, onSet: (path: string) => void): void {
+  for (const [key, value] of Object.entries(source)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+      if (typeof target[key] !== "object" || target[key] === null || Array.isArray(target[key])) {
+        target[key] = {};
+      }
+      mergeInto(target[key] as Record<string, unknown>, value as Record<string, unknown>, path, onSet);
+    } else {
+      target[key] = value;
+      onSet(path);
+    }
+  }
+}
+
+// Source of the most specific path set at or above an issue's path, or else of one set below it
+// (e.g. a network block the config file added, whose name is invalid)
+function findSource(sources: Map<string, string>, path: string): string {
+  const keys = path.split(".");
+  for (let length = keys.length; length > 0; length--) {
+    const source = sources.get(keys.slice(0, length).join("."));
+    if (source) {
+      return source;
+    }
+  }
+  for (const [setPath, source] of sources) {
+    if (path !== "" && setPath.startsWith(`${path}.`)) {
+      return source;
+    }
+  }
+  return "default";
+}
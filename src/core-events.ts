@@ -0,0 +1,226 @@
+import { hash, num } from "starknet";
+import { Bounds, CorePoolKey, createFeltReader, Delta } from "./cairo-serde";
+import { Network } from "./config";
+import { EmittedEvent } from "./event-fetcher";
+import { logger } from "./logger";
+import { getPoolId } from "./pool-events";
+
+/**
+ * Decoders for Ekubo Core activity events: swaps, position updates, fee
+ * collection and saved balances.
+ *
+ * Each event is decoded from its raw felts following Cairo serde for the
+ * structs in Ekubo Core (see src/cairo-serde.ts).
+ *
+ * Amounts are returned as decimal strings so they survive JSON round-trips
+ * without losing precision. Pool events carry the same `pool_id` as the
+ * PoolInitializedEvent of their pool.
+ */
+
+interface CoreEventBase {
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+  // Position of the event among the matched Core events in its transaction
+  event_index: number;
+}
+
+export interface SwappedEvent extends CoreEventBase {
+  type: "Swapped";
+  locker: string;
+  pool_id: string;
+  pool_key: CorePoolKey;
+  params: {
+    amount: string;
+    is_token1: boolean;
+    sqrt_ratio_limit: string;
+    skip_ahead: string;
+  };
+  delta: Delta;
+  sqrt_ratio_after: string;
+  tick_after: number;
+  liquidity_after: string;
+  // Account that sent the transaction; only resolved for swaps in indexed pools (see src/swap-activity.ts)
+  trader?: string;
+}
+
+export interface PositionUpdatedEvent extends CoreEventBase {
+  type: "PositionUpdated";
+  locker: string;
+  pool_id: string;
+  pool_key: CorePoolKey;
+  params: {
+    salt: string;
+    bounds: Bounds;
+    liquidity_delta: string;
+  };
+  delta: Delta;
+}
+
+export interface PositionFeesCollectedEvent extends CoreEventBase {
+  type: "PositionFeesCollected";
+  pool_id: string;
+  pool_key: CorePoolKey;
+  position_key: {
+    salt: string;
+    owner: string;
+    bounds: Bounds;
+  };
+  delta: Delta;
+}
+
+export interface FeesAccumulatedEvent extends CoreEventBase {
+  type: "FeesAccumulated";
+  pool_id: string;
+  pool_key: CorePoolKey;
+  amount0: string;
+  amount1: string;
+}
+
+export interface SavedBalanceEvent extends CoreEventBase {
+  type: "SavedBalance" | "LoadedBalance";
+  key: {
+    owner: string;
+    token: string;
+    salt: string;
+  };
+  amount: string;
+}
+
+export type CoreEvent =
+  | SwappedEvent
+  | PositionUpdatedEvent
+  | PositionFeesCollectedEvent
+  | FeesAccumulatedEvent
+  | SavedBalanceEvent;
+
+export type CoreEventType = CoreEvent["type"];
+
+// Events that belong to a specific pool
+export type CorePoolEvent = Exclude<CoreEvent, SavedBalanceEvent>;
+
+export const CORE_EVENT_TYPES: CoreEventType[] = [
+  "Swapped",
+  "PositionUpdated",
+  "PositionFeesCollected",
+  "FeesAccumulated",
+  "SavedBalance",
+  "LoadedBalance",
+];
+
+// Event selectors are the starknet_keccak of the event name
+const SELECTOR_TO_TYPE = new Map<string, CoreEventType>(
+  CORE_EVENT_TYPES.map(type => [num.toHex(hash.getSelectorFromName(type)), type])
+);
+
+// Selectors of the tracked events, for getEvents key filters
+export const CORE_EVENT_SELECTORS = Array.from(SELECTOR_TO_TYPE.keys());
+
+// Attach the pool id once the pool key has been decoded
+function withPoolId<T extends Omit<CorePoolEvent, "pool_id">>(event: T): T & { pool_id: string } {
+  return { ...event, pool_id: getPoolId(event.pool_key) };
+}
+
+// Decode a raw Core event, returning null for events we don't track
+export function decodeCoreEvent(event: EmittedEvent, eventIndex: number): CoreEvent | null {
+  const type = SELECTOR_TO_TYPE.get(num.toHex(event.keys[0] ?? 0));
+  if (!type) {
+    return null;
+  }
+
+  const reader = createFeltReader(event.data || []);
+  const base: CoreEventBase = {
+    block_number: Number(event.block_number || 0),
+    block_hash: event.block_hash || "",
+    transaction_hash: event.transaction_hash || "",
+    event_index: eventIndex,
+  };
+
+  switch (type) {
+    case "Swapped":
+      return withPoolId({
+        ...base,
+        type,
+        locker: reader.felt(),
+        pool_key: reader.poolKey(),
+        params: {
+          amount: reader.i129(),
+          is_token1: reader.bool(),
+          sqrt_ratio_limit: reader.u256(),
+          skip_ahead: reader.u128(),
+        },
+        delta: reader.delta(),
+        sqrt_ratio_after: reader.u256(),
+        tick_after: reader.tick(),
+        liquidity_after: reader.u128(),
+      });
+    case "PositionUpdated":
+      return withPoolId({
+        ...base,
+        type,
+        locker: reader.felt(),
+        pool_key: reader.poolKey(),
+        params: {
+          salt: reader.felt(),
+          bounds: reader.bounds(),
+          liquidity_delta: reader.i129(),
+        },
+        delta: reader.delta(),
+      });
+    case "PositionFeesCollected":
+      return withPoolId({
+        ...base,
+        type,
+        pool_key: reader.poolKey(),
+        position_key: {
+          salt: reader.felt(),
+          owner: reader.felt(),
+          bounds: reader.bounds(),
+        },
+        delta: reader.delta(),
+      });
+    case "FeesAccumulated":
+      return withPoolId({
+        ...base,
+        type,
+        pool_key: reader.poolKey(),
+        amount0: reader.u128(),
+        amount1: reader.u128(),
+      });
+    case "SavedBalance":
+    case "LoadedBalance":
+      return {
+        ...base,
+        type,
+        key: {
+          owner: reader.felt(),
+          token: reader.felt(),
+          salt: reader.felt(),
+        },
+        amount: reader.u128(),
+      };
+  }
+}
+
+// Decode the tracked Core activity events among raw events read from the Core contract, in block order
+export function decodeCoreEvents(network: Network, rawEvents: EmittedEvent[]): CoreEvent[] {
+  const events: CoreEvent[] = [];
+  // Events seen so far per transaction, to number them within it
+  const eventsPerTransaction = new Map<string, number>();
+
+  for (const rawEvent of rawEvents) {
+    const eventIndex = eventsPerTransaction.get(rawEvent.transaction_hash) ?? 0;
+    eventsPerTransaction.set(rawEvent.transaction_hash, eventIndex + 1);
+
+    try {
+      const event = decodeCoreEvent(rawEvent, eventIndex);
+      if (event) {
+        events.push(event);
+      }
+    } catch (error) {
+      logger.warn("Could not decode Core event", { network, transaction_hash: rawEvent.transaction_hash, error });
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,126 @@
+import { expect, spyOn, test } from "bun:test";
+import { RpcError, RpcProvider } from "starknet";
+import { config } from "./config";
+import { fetchAllEvents, isRangeTooLarge } from "./event-fetcher";
+import * as rpc from "./rpc";
+
+// An error as a node would reply to starknet_getEvents
+function rpcError(code: number, message: string): RpcError {
+  return new RpcError({ code, message } as RpcError["baseError"], "starknet_getEvents", {});
+}
+
+test("block range rejections split the range", () => {
+  expect(isRangeTooLarge(rpcError(-32602, "Invalid params: block range is too wide"))).toBe(true);
+  expect(isRangeTooLarge(rpcError(-32600, "Query exceeds max block range 10000"))).toBe(true);
+  expect(isRangeTooLarge(new Error("too many blocks requested, max 5000"))).toBe(true);
+});
+
+test("rate limits and other errors don't split the range", () => {
+  expect(isRangeTooLarge(new Error("HTTP 429 Too Many Requests"))).toBe(false);
+  expect(isRangeTooLarge(rpcError(-32005, "limit exceeded"))).toBe(false);
+  expect(isRangeTooLarge(rpcError(-32029, "Rate limit exceeded for block range queries"))).toBe(false);
+  // Handled by halving the page size instead
+  expect(isRangeTooLarge(rpcError(31, "Requested page size is too big"))).toBe(false);
+  expect(isRangeTooLarge(rpcError(24, "Block not found"))).toBe(false);
+});
+
+// A node holding one event per listed block, with optional limits on the block range and page size of getEvents.
+// Reads go to a stub provider in place of the endpoint pool until `restore` is called.
+function stubNode(eventBlocks: number[], limits: { maxRangeBlocks?: number; maxPageSize?: number } = {}) {
+  const requests: { fromBlock: number; toBlock: number; pageSize: number; rejected: boolean }[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const getEvents: RpcProvider["getEvents"] = async filter => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    try {
+      await Bun.sleep(1);
+      const fromBlock = (filter.from_block as { block_number: number }).block_number;
+      const toBlock = (filter.to_block as { block_number: number }).block_number;
+      const pageSize = filter.chunk_size;
+      const request = { fromBlock, toBlock, pageSize, rejected: true };
+      requests.push(request);
+
+      if (limits.maxPageSize !== undefined && pageSize > limits.maxPageSize) {
+        throw rpcError(31, "Requested page size is too big");
+      }
+      if (limits.maxRangeBlocks !== undefined && toBlock - fromBlock + 1 > limits.maxRangeBlocks) {
+        throw rpcError(-32602, "Invalid params: block range is too wide");
+      }
+      request.rejected = false;
+
+      const matching = eventBlocks.filter(block => block >= fromBlock && block <= toBlock);
+      const offset = Number(filter.continuation_token ?? 0);
+      return {
+        events: matching.slice(offset, offset + pageSize).map(block => ({
+          from_address: filter.address!,
+          keys: ["0x1"],
+          data: [],
+          block_hash: `0xb${block}`,
+          block_number: block,
+          transaction_hash: `0xt${block}`,
+        })),
+        continuation_token: offset + pageSize < matching.length ? String(offset + pageSize) : undefined,
+      };
+    } finally {
+      inFlight--;
+    }
+  };
+  const spy = spyOn(rpc, "getRpcProvider").mockReturnValue({ getEvents } as RpcProvider);
+
+  return { requests, maxInFlight: () => maxInFlight, restore: () => spy.mockRestore() };
+}
+
+const blocks = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+const readBlocks = async (address: string, fromBlock: number, toBlock: number) =>
+  (await fetchAllEvents("testnet", { address, keys: [["0x1"]], fromBlock, toBlock })).map(event => event.block_number);
+
+test("follows continuation tokens until the range is read completely", async () => {
+  const node = stubNode(blocks(10, 34));
+  config.events.pageSize = 10;
+  try {
+    expect(await readBlocks("0xe1", 0, 99)).toEqual(blocks(10, 34));
+    expect(node.requests.map(request => request.pageSize)).toEqual([10, 10, 10]);
+  } finally {
+    node.restore();
+    config.events.pageSize = 1000;
+  }
+});
+
+test("halves the page size until the node accepts it, and keeps it", async () => {
+  const node = stubNode(blocks(0, 9), { maxPageSize: 3 });
+  config.events.pageSize = 16;
+  try {
+    expect(await readBlocks("0xe2", 0, 99)).toEqual(blocks(0, 9));
+    expect(node.requests.filter(request => request.rejected).map(request => request.pageSize)).toEqual([16, 8, 4]);
+    expect(node.requests.filter(request => !request.rejected).map(request => request.pageSize)).toEqual([2, 2, 2, 2, 2]);
+
+    node.requests.length = 0;
+    expect(await readBlocks("0xe2", 0, 99)).toEqual(blocks(0, 9));
+    expect(node.requests.every(request => request.pageSize === 2 && !request.rejected)).toBe(true);
+  } finally {
+    node.restore();
+    config.events.pageSize = 1000;
+  }
+});
+
+test("splits ranges the node rejects, reads the halves in turn and pre-splits later reads", async () => {
+  const node = stubNode([0, 150, 299, 399], { maxRangeBlocks: 100 });
+  try {
+    expect(await readBlocks("0xe3", 0, 399)).toEqual([0, 150, 299, 399]);
+    expect(node.requests.filter(request => !request.rejected).map(request => [request.fromBlock, request.toBlock])).toEqual([
+      [0, 99], [100, 199], [200, 299], [300, 399],
+    ]);
+    expect(node.maxInFlight()).toBe(1);
+
+    // The narrowed range is remembered for the contract, so no request is rejected again
+    node.requests.length = 0;
+    expect(await readBlocks("0xe3", 0, 399)).toEqual([0, 150, 299, 399]);
+    expect(node.requests).toHaveLength(4);
+    expect(node.requests.some(request => request.rejected)).toBe(false);
+    expect(node.maxInFlight()).toBe(1);
+  } finally {
+    node.restore();
+  }
+});
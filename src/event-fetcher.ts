@@ -0,0 +1,163 @@
+import { EVENTS_CHUNK, RpcError } from "starknet";
+import { config, Network } from "./config";
+import { logger } from "./logger";
+import { observeDuration } from "./metrics";
+import { getRpcProvider } from "./rpc";
+
+/**
+ * Complete `starknet_getEvents` reads over arbitrary block ranges.
+ *
+ * Every page is followed through its continuation token, so a range with
+ * more matching events than fit in one page is never truncated. Nodes put
+ * their own limits on getEvents: when one rejects the page size
+ * (PAGE_SIZE_TOO_BIG), pages are halved; when it rejects the block range as
+ * too large, the range is split in two and the halves are read one after the
+ * other. The largest range that worked is remembered per network and
+ * address, so later reads are pre-split instead of being rejected again, and
+ * is doubled back up (to EVENTS_MAX_RANGE_BLOCKS) after a run of successes.
+ *
+ * A single read sends one request at a time, so a read never takes more than
+ * its share of the rate limit. Callers reading many chunks run them through
+ * mapWithConcurrency with EVENTS_FETCH_CONCURRENCY, the one place that limit
+ * is applied.
+ */
+
+export interface EventFilter {
+  address: string;
+  keys: string[][];
+  fromBlock: number;
+  toBlock: number;
+}
+
+// An emitted event as returned by starknet_getEvents (the spec's EMITTED_EVENT)
+export type EmittedEvent = EVENTS_CHUNK["events"][number];
+
+// Successful reads of the current range size before trying twice as large again
+const GROWTH_AFTER_SUCCESSES = 20;
+
+// Learned limits per network and contract address
+const rangeLimits = new Map<string, { maxRangeBlocks: number; successes: number }>();
+const pageSizes = new Map<string, number>();
+
+// Every event matching the filter in its block range, in block order
+export async function fetchAllEvents(network: Network, filter: EventFilter): Promise<EmittedEvent[]> {
+  const limitKey = `${network}:${BigInt(filter.address)}`;
+  const limit = rangeLimits.get(limitKey)?.maxRangeBlocks ?? config.events.maxRangeBlocks;
+
+  const ranges: { fromBlock: number; toBlock: number }[] = [];
+  for (let fromBlock = filter.fromBlock; fromBlock <= filter.toBlock; fromBlock += limit) {
+    ranges.push({ fromBlock, toBlock: Math.min(filter.toBlock, fromBlock + limit - 1) });
+  }
+
+  const events: EmittedEvent[] = [];
+  for (const range of ranges) {
+    const startedAt = performance.now();
+    events.push(...await fetchRange(network, { ...filter, ...range }, limitKey));
+    observeDuration("ekubo_events_chunk_duration_seconds", { network }, (performance.now() - startedAt) / 1000);
+  }
+  return events;
+}
+
+// Run fn over items with at most `concurrency` calls in flight, keeping results in item order
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  return results;
+}
+
+// One range, paged through continuation tokens, split in two if the node rejects it
+async function fetchRange(network: Network, filter: EventFilter, limitKey: string): Promise<EmittedEvent[]> {
+  const provider = getRpcProvider(network);
+  const events: EmittedEvent[] = [];
+  let continuationToken: string | undefined;
+
+  try {
+    for (;;) {
+      const pageSize = pageSizes.get(network) ?? config.events.pageSize;
+      try {
+        const page = await provider.getEvents({
+          address: filter.address,
+          from_block: { block_number: filter.fromBlock },
+          to_block: { block_number: filter.toBlock },
+          keys: filter.keys,
+          chunk_size: pageSize,
+          continuation_token: continuationToken,
+        });
+        events.push(...page.events);
+        if (!page.continuation_token) {
+          break;
+        }
+        continuationToken = page.continuation_token;
+      } catch (error) {
+        if (error instanceof RpcError && error.isType("PAGE_SIZE_TOO_BIG") && pageSize > 1) {
+          pageSizes.set(network, Math.floor(pageSize / 2));
+          logger.warn("Node rejected getEvents page size, halving it", { network, page_size: pageSize, new_page_size: Math.floor(pageSize / 2) });
+          continue;
+        }
+        throw error;
+      }
+    }
+  } catch (error) {
+    if (!isRangeTooLarge(error) || filter.fromBlock === filter.toBlock) {
+      throw error;
+    }
+
+    const blocks = filter.toBlock - filter.fromBlock + 1;
+    const middle = filter.fromBlock + Math.floor(blocks / 2) - 1;
+    shrinkRangeLimit(limitKey, Math.floor(blocks / 2));
+    logger.debug("Node rejected getEvents block range, splitting it", { network, from_block: filter.fromBlock, to_block: filter.toBlock });
+
+    const first = await fetchRange(network, { ...filter, toBlock: middle }, limitKey);
+    const second = await fetchRange(network, { ...filter, fromBlock: middle + 1 }, limitKey);
+    return [...first, ...second];
+  }
+
+  recordRangeSuccess(limitKey);
+  return events;
+}
+
+// The spec has no error code for a block range that is too large (only PAGE_SIZE_TOO_BIG, handled
+// by halving pages), so providers phrase it themselves. Only messages naming the block range count:
+// rate limits ("limit exceeded", HTTP 429) would otherwise split ranges until they are single blocks.
+export function isRangeTooLarge(error: unknown): boolean {
+  if (error instanceof RpcError && error.isType("PAGE_SIZE_TOO_BIG")) {
+    return false;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b429\b|rate.?limit|too many requests/i.test(message)) {
+    return false;
+  }
+  return /block range|range of blocks|too many blocks|range (is )?too (large|wide|big)|exceed(s|ed)? (the )?max(imum)? (block )?range/i.test(message);
+}
+
+function shrinkRangeLimit(limitKey: string, maxRangeBlocks: number): void {
+  const current = rangeLimits.get(limitKey)?.maxRangeBlocks ?? config.events.maxRangeBlocks;
+  rangeLimits.set(limitKey, { maxRangeBlocks: Math.max(1, Math.min(current, maxRangeBlocks)), successes: 0 });
+}
+
+function recordRangeSuccess(limitKey: string): void {
+  const limit = rangeLimits.get(limitKey);
+  if (!limit) {
+    return;
+  }
+
+  limit.successes++;
+  if (limit.successes >= GROWTH_AFTER_SUCCESSES) {
+    const grown = limit.maxRangeBlocks * 2;
+    if (grown >= config.events.maxRangeBlocks) {
+      rangeLimits.delete(limitKey);
+    } else {
+      rangeLimits.set(limitKey, { maxRangeBlocks: grown, successes: 0 });
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { readFileSync } from "node:fs";
+import { Abi } from "starknet";
+import { config, getNetworkConfig, Network } from "./config";
+import { logger } from "./logger";
+import { getRpcProvider } from "./rpc";
+import { getStore, setBounded } from "./store";
+import { normalizeAddress } from "./token-registry";
+
+/**
+ * Classification of Ekubo extensions, which determine what kind of pool a
+ * pool key describes (oracle, TWAMM, limit orders, ...).
+ *
+ * Known extensions are listed per network in a registry file (see
+ * extensions/mainnet.json). Any other extension is classified by its class
+ * hash: a contract sharing its class with a listed extension is the same kind
+ * of extension, and otherwise the class ABI is inspected for the entrypoints
+ * and Cairo module paths that characterize each kind. Classifications are
+ * persisted in the store; failed inspections (e.g. RPC errors) are retried
+ * with exponential backoff rather than on every request.
+ */
+
+export type ExtensionType = "none" | "oracle" | "twamm" | "limit_orders" | "mev_resist" | "unknown";
+
+export const EXTENSION_TYPES: ExtensionType[] = ["none", "oracle", "twamm", "limit_orders", "mev_resist", "unknown"];
+
+export interface ExtensionInfo {
+  address: string;
+  type: ExtensionType;
+  name?: string;
+  class_hash?: string;
+  // How the type was determined
+  source: "registry" | "class_hash" | "abi";
+}
+
+// Entry of an extension registry file
+interface RegistryExtension {
+  address: string;
+  type: ExtensionType;
+  name: string;
+  // Class of the deployed extension, so redeployments match without an RPC call
+  class_hash?: string;
+}
+
+// Entrypoints that only a given kind of extension exposes, and the Cairo modules of Ekubo's
+// implementation, which prefix the names of its interfaces, impls and events in the ABI
+const ABI_SIGNATURES: { type: ExtensionType; name: string; entrypoints: string[]; modules: string[] }[] = [
+  { type: "twamm", name: "TWAMM", entrypoints: ["update_sale_rate", "withdraw_proceeds_from_sale"], modules: ["ekubo::extensions::twamm"] },
+  { type: "limit_orders", name: "Limit Orders", entrypoints: ["place_order", "close_order", "get_order_infos"], modules: ["ekubo::extensions::limit_orders"] },
+  { type: "oracle", name: "Oracle", entrypoints: ["get_price_x128_over_last", "get_earliest_snapshot_block_timestamp"], modules: ["ekubo::extensions::oracle"] },
+  { type: "mev_resist", name: "MEV Resist", entrypoints: [], modules: ["ekubo::extensions::mev_resist"] },
+];
+
+// In-memory cache in front of the store, keyed by network and normalized address
+const extensionCache = new Map<string, ExtensionInfo>();
+const loadedRegistries = new Set<Network>();
+// Backoff state for extensions whose inspection failed
+const failedInspections = new Map<string, { failures: number; retryAt: number }>();
+
+// Load the configured extension registry for a network into the store (once per process)
+function loadExtensionRegistry(network: Network): void {
+  if (loadedRegistries.has(network)) {
+    return;
+  }
+  loadedRegistries.add(network);
+
+  const registryFile = getNetworkConfig(network).extensionRegistry;
+  if (!registryFile) {
+    return;
+  }
+
+  let entries: RegistryExtension[];
+  try {
+    entries = JSON.parse(readFileSync(registryFile, "utf8"));
+  } catch (error) {
+    logger.warn("Could not load extension registry", { network, file: registryFile, error });
+    return;
+  }
+
+  const store = getStore();
+  for (const entry of entries) {
+    const address = normalizeAddress(entry.address);
+    const existing = store.getExtension(network, address);
+    store.saveExtension(network, {
+      address,
+      type: entry.type,
+      name: entry.name,
+      class_hash: entry.class_hash ?? existing?.class_hash,
+      source: "registry",
+    });
+    extensionCache.delete(`${network}:${address}`);
+  }
+
+  logger.info("Loaded known extensions", { network, file: registryFile, count: entries.length });
+}
+
+// Classify a pool's extension; undefined if it couldn't be determined right now (e.g. RPC failure)
+export async function classifyExtension(address: string, network: Network = "mainnet"): Promise<ExtensionInfo | undefined> {
+  if (BigInt(address) === 0n) {
+    return { address: "0x0", type: "none", source: "registry" };
+  }
+
+  loadExtensionRegistry(network);
+
+  const normalizedAddress = normalizeAddress(address);
+  const cacheKey = `${network}:${normalizedAddress}`;
+  const known = extensionCache.get(cacheKey) ?? getStore().getExtension(network, normalizedAddress);
+  if (known) {
+    setBounded(extensionCache, cacheKey, known);
+    return known;
+  }
+
+  const failure = failedInspections.get(cacheKey);
+  if (failure && Date.now() < failure.retryAt) {
+    return undefined;
+  }
+
+  try {
+    const info = await inspectExtension(normalizedAddress, network);
+    getStore().saveExtension(network, info);
+    setBounded(extensionCache, cacheKey, info);
+    failedInspections.delete(cacheKey);
+
+    logger.debug("Classified extension", { network, extension: normalizedAddress, type: info.type, source: info.source });
+
+    return info;
+  } catch (error) {
+    const failures = (failedInspections.get(cacheKey)?.failures ?? 0) + 1;
+    const delay = Math.min(config.tokens.retryBaseMs * 2 ** (failures - 1), config.tokens.refreshIntervalMs);
+    failedInspections.set(cacheKey, { failures, retryAt: Date.now() + delay });
+
+    logger.warn("Could not classify extension", { network, extension: normalizedAddress, attempt: failures, retry_in_seconds: Math.round(delay / 1000), error });
+    return undefined;
+  }
+}
+
+// Classify an unlisted extension by its class hash, then by its ABI
+async function inspectExtension(address: string, network: Network): Promise<ExtensionInfo> {
+  const provider = getRpcProvider(network);
+  const classHash = await provider.getClassHashAt(address);
+
+  // Listed extensions only learn their class hash once something needs to be compared against it
+  await recordRegistryClassHashes(network);
+  const sameClass = getStore().getExtensionsByClassHash(network, classHash)
+    .find(extension => extension.type !== "unknown");
+  if (sameClass) {
+    return { address, type: sameClass.type, name: sameClass.name, class_hash: classHash, source: "class_hash" };
+  }
+
+  const contractClass = await provider.getClassAt(address);
+  const abi: Abi = (typeof contractClass.abi === "string" ? JSON.parse(contractClass.abi) : contractClass.abi) ?? [];
+  const signature = matchAbiSignature(abi);
+
+  return {
+    address,
+    type: signature?.type ?? "unknown",
+    name: signature?.name,
+    class_hash: classHash,
+    source: "abi",
+  };
+}
+
+// Fetch the class hashes of listed extensions we haven't seen yet, so redeployments can be matched
+async function recordRegistryClassHashes(network: Network): Promise<void> {
+  const provider = getRpcProvider(network);
+  const store = getStore();
+
+  for (const extension of store.getExtensionsBySource(network, "registry")) {
+    if (extension.class_hash) {
+      continue;
+    }
+    try {
+      const classHash = await provider.getClassHashAt(extension.address);
+      store.saveExtension(network, { ...extension, class_hash: classHash });
+    } catch (error) {
+      logger.debug("Could not fetch class hash of extension", { extension: extension.address, error });
+    }
+  }
+}
+
+// The first kind of extension whose entrypoints or modules appear in an ABI
+function matchAbiSignature(abi: Abi): (typeof ABI_SIGNATURES)[number] | undefined {
+  const entrypoints = new Set(collectFunctionNames(abi));
+  const paths = collectItemPaths(abi);
+
+  return ABI_SIGNATURES.find(candidate =>
+    candidate.entrypoints.some(entrypoint => entrypoints.has(entrypoint))
+    || candidate.modules.some(module => paths.some(path => path.startsWith(`${module}::`)))
+  );
+}
+
+// Function names in an ABI, including those nested in interfaces
+function collectFunctionNames(abi: Abi): string[] {
+  return abi.flatMap(item => {
+    if (item.type === "function") {
+      return [item.name];
+    }
+    if (item.type === "interface" && Array.isArray(item.items)) {
+      return collectFunctionNames(item.items);
+    }
+    return [];
+  });
+}
+
+// Cairo paths naming the interfaces, impls and events of an ABI, e.g. ekubo::extensions::twamm::TWAMM::Event
+export function collectItemPaths(abi: Abi): string[] {
+  return abi.flatMap(item => {
+    if (item.type === "interface" || item.type === "event") {
+      return [item.name];
+    }
+    if (item.type === "impl") {
+      return [item.name, item.interface_name];
+    }
+    return [];
+  }).filter((path): path is string => typeof path === "string");
+}
@@ -0,0 +1,71 @@
+/**
+ * Human-readable fee and tick spacing for Ekubo pool keys.
+ *
+ * The pool key fee is a 0.128 fixed-point u128 (fee fraction * 2^128), kept
+ * as an exact bigint here. Tick spacing is a number of ticks of 1.000001, so
+ * the price step between usable ticks is 1.000001^tick_spacing - 1.
+ */
+
+const FEE_DENOMINATOR_BITS = 128n;
+const TICK_BASE = 1.000001;
+
+// Ekubo's standard (fee %, tick spacing) pairs, as offered by its interface
+const STANDARD_TIERS: { feePercent: number; tickSpacing: number }[] = [
+  { feePercent: 0.01, tickSpacing: 200 },
+  { feePercent: 0.05, tickSpacing: 1000 },
+  { feePercent: 0.3, tickSpacing: 5982 },
+  { feePercent: 1, tickSpacing: 19802 },
+  { feePercent: 5, tickSpacing: 95310 },
+];
+
+// Fees are created from floating-point percentages, so tiers match within this tolerance
+const FEE_PERCENT_TOLERANCE = 1e-9;
+
+export interface FeeTier {
+  fee_percent: number;
+  fee_bps: number;
+  // Price change between two adjacent usable ticks, in percent
+  tick_spacing_percent: number;
+  // Whether (fee, tick_spacing) is one of Ekubo's standard tiers
+  standard_tier: boolean;
+}
+
+// Fee as a percentage, computed from the exact fixed-point value with 16 decimals of precision
+export function feeToPercent(fee: string | bigint): number {
+  return scaleFee(fee, 100n);
+}
+
+export function feeToBps(fee: string | bigint): number {
+  return scaleFee(fee, 10000n);
+}
+
+// Pool key fee and tick spacing of each standard tier. Fees are computed from the floating-point
+// percentage the way Ekubo's interface does, so they equal the fees of pools created through it.
+export function getStandardTierKeys(): { fee: string; tick_spacing: number }[] {
+  return STANDARD_TIERS.map(tier => ({
+    fee: BigInt(Math.floor(tier.feePercent / 100 * 2 ** 128)).toString(),
+    tick_spacing: tier.tickSpacing,
+  }));
+}
+
+export function tickSpacingToPercent(tickSpacing: number): number {
+  return (Math.pow(TICK_BASE, tickSpacing) - 1) * 100;
+}
+
+export function describeFeeTier(fee: string | bigint, tickSpacing: number): FeeTier {
+  const feePercent = feeToPercent(fee);
+
+  return {
+    fee_percent: feePercent,
+    fee_bps: feeToBps(fee),
+    tick_spacing_percent: tickSpacingToPercent(tickSpacing),
+    standard_tier: STANDARD_TIERS.some(tier =>
+      tier.tickSpacing === tickSpacing && Math.abs(tier.feePercent - feePercent) < FEE_PERCENT_TOLERANCE
+    ),
+  };
+}
+
+// fee / 2^128 * multiplier, rounded down to 16 decimals before leaving bigint arithmetic
+function scaleFee(fee: string | bigint, multiplier: bigint): number {
+  return Number((BigInt(fee) * multiplier * 10n ** 16n) >> FEE_DENOMINATOR_BITS) / 1e16;
+}
@@ -0,0 +1,64 @@
+import { config } from "./config";
+import { getIndexerStatus } from "./indexer";
+import { renderMetrics, setGauge } from "./metrics";
+import { getRpcStatus } from "./rpc";
+import { getStore } from "./store";
+
+/**
+ * Operational routes served next to the agent:
+ *
+ *   - `GET /metrics`: Prometheus metrics (see src/metrics.ts)
+ *   - `GET /healthz`: liveness; 200 as long as the process can read its database
+ *   - `GET /readyz`: readiness; 200 once every indexed network has finished
+ *     its backfill and has at least one RPC endpoint in rotation, 503 before
+ *
+ * Both health routes answer with a small JSON body describing what they checked.
+ */
+
+interface NetworkReadiness {
+  network: string;
+  backfilled: boolean;
+  last_indexed_block: number | null;
+  head_block: number | null;
+  healthy_rpc_endpoints: number;
+}
+
+export function handleMetrics(): Response {
+  for (const network of config.indexer.networks) {
+    for (const endpoint of getRpcStatus(network)) {
+      setGauge("ekubo_rpc_endpoint_healthy", { network, host: endpoint.host }, endpoint.healthy ? 1 : 0);
+    }
+  }
+
+  return new Response(renderMetrics(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
+
+export function handleHealthz(): Response {
+  try {
+    for (const network of config.indexer.networks) {
+      getStore().getCursor(network);
+    }
+    return Response.json({ status: "ok" });
+  } catch (error) {
+    return Response.json({ status: "error", error: error instanceof Error ? error.message : String(error) }, { status: 503 });
+  }
+}
+
+export function handleReadyz(): Response {
+  const networks: NetworkReadiness[] = config.indexer.networks.map(network => {
+    const status = getIndexerStatus(network);
+    return {
+      network,
+      backfilled: status?.backfilled ?? false,
+      last_indexed_block: status?.lastIndexedBlock ?? null,
+      head_block: status?.headBlock ?? null,
+      // Replays never reach an endpoint, so they count as healthy
+      healthy_rpc_endpoints: config.rpc.mode === "replay" ? 1 : getRpcStatus(network).filter(endpoint => endpoint.healthy).length,
+    };
+  });
+
+  const ready = networks.every(network => network.backfilled && network.healthy_rpc_endpoints > 0);
+  return Response.json({ status: ready ? "ready" : "not_ready", networks }, { status: ready ? 200 : 503 });
+}
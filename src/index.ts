@@ -1,12 +1,45 @@
 import { app } from "./agent";
+import { handleHealthz, handleMetrics, handleReadyz } from "./health";
+import { startIndexer } from "./indexer";
+import { logger, withLogContext } from "./logger";
+import { recordEntrypointRequest } from "./metrics";
+import { handlePoolStream } from "./pool-stream";
+import { startRiskInspector } from "./risk";
+import { startRpcHealthChecks } from "./rpc";
+import { startWebhookDispatcher } from "./webhooks";
 
 const port = Number(process.env.PORT ?? 8787);
 
 const server = Bun.serve({
   port,
-  fetch: app.fetch,
+  async fetch(request, server) {
+    const pathname = new URL(request.url).pathname;
+    if (request.method === "GET") {
+      switch (pathname) {
+        case "/stream/pools":
+          return handlePoolStream(request, server);
+        case "/metrics":
+          return handleMetrics();
+        case "/healthz":
+          return handleHealthz();
+        case "/readyz":
+          return handleReadyz();
+      }
+    }
+
+    // Every entry logged while handling the request carries its id, which is echoed back to the client
+    const requestId = request.headers.get("X-Request-Id") || crypto.randomUUID();
+    const entrypoint = pathname.match(/^\/entrypoints\/([^/]+)\//)?.[1];
+    const response = await withLogContext({ request_id: requestId, entrypoint }, () => app.fetch(request));
+    recordEntrypointRequest(request, response);
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  },
 });
 
-console.log(
-  `🚀 Agent ready at http://${server.hostname}:${server.port}/.well-known/agent.json`
-);
+logger.info("Agent ready", { url: `http://${server.hostname}:${server.port}/.well-known/agent.json` });
+
+startRpcHealthChecks();
+startWebhookDispatcher();
+startRiskInspector();
+startIndexer();
@@ -0,0 +1,309 @@
+import cron from "node-cron";
+import { config, getNetworkConfig, Network } from "./config";
+import { findFirstBlockAtOrAfter, getBlockHeader, getBlockHeaders } from "./block-time";
+import { logger, withLogContext } from "./logger";
+import { getRpcProvider } from "./rpc";
+import { CORE_EVENT_SELECTORS, CoreEvent, decodeCoreEvents } from "./core-events";
+import { fetchAllEvents, mapWithConcurrency } from "./event-fetcher";
+import { incrementCounter, setGauge } from "./metrics";
+import { decodePoolInitializedEvents, isPoolInitializedEvent, PoolInitializedEvent, toPoolFinality } from "./pool-events";
+import { getStore, PoolQueryOptions } from "./store";
+import { resolveSwapTraders } from "./swap-activity";
+
+/**
+ * Background indexer that follows new blocks and ingests PoolInitialized events
+ * together with Ekubo Core activity events (swaps, positions, fees).
+ *
+ * On startup each configured network is backfilled up to `maxLookbackMinutes`,
+ * or resumed from the cursor persisted in the store. After that a cron task
+ * polls the chain head and ingests new blocks as they land, so the entrypoints
+ * can answer purely from the local index. Chunks of blocks are read
+ * EVENTS_FETCH_CONCURRENCY at a time and recorded in order.
+ *
+ * Every tick first checks that the blocks we have ingested are still part of
+ * the canonical chain. If the cursor block, a recent block holding Core
+ * events or a block holding pools has been replaced, everything after the
+ * last known-good block is rolled back and re-ingested. The same pass
+ * promotes pools to `accepted_on_l1` as blocks are finalized.
+ */
+
+export interface IndexerStatus {
+  network: Network;
+  lastIndexedBlock: number | null;
+  // Chain head seen by the last tick
+  headBlock: number | null;
+  backfilled: boolean;
+  poolCount: number;
+}
+
+// Networks that have caught up with the head since this process started
+const backfilledNetworks = new Set<Network>();
+const headBlocks = new Map<Network, number>();
+// Networks with a tick currently in flight, so slow ticks don't overlap
+const runningTicks = new Set<Network>();
+const scheduledTasks: cron.ScheduledTask[] = [];
+// Callbacks notified with the pools of every ingested chunk
+const poolListeners = new Set<(network: Network, pools: PoolInitializedEvent[]) => void>();
+
+// Start indexing every configured network
+export function startIndexer(): void {
+  for (const network of config.indexer.networks) {
+    const cursor = getStore().getCursor(network);
+    if (cursor !== null) {
+      logger.info("Resuming indexer", { network, cursor_block: cursor.blockNumber });
+    }
+
+    // Every entry logged during a tick carries its network
+    const tick = () => withLogContext({ network }, () => indexNetwork(network));
+    const task = cron.schedule(`*/${config.indexer.pollIntervalSeconds} * * * * *`, () => {
+      void tick();
+    });
+    scheduledTasks.push(task);
+
+    logger.info("Indexer started", { network, poll_interval_seconds: config.indexer.pollIntervalSeconds });
+
+    // Kick off the backfill straight away instead of waiting for the first cron tick
+    void tick();
+  }
+}
+
+// Stop all scheduled indexer tasks
+export function stopIndexer(): void {
+  scheduledTasks.forEach(task => task.stop());
+  scheduledTasks.length = 0;
+}
+
+// Be notified of newly ingested pools, after they have been persisted.
+// Pools re-ingested after a reorg rollback are reported again.
+export function onPoolsIndexed(listener: (network: Network, pools: PoolInitializedEvent[]) => void): () => void {
+  poolListeners.add(listener);
+  return () => poolListeners.delete(listener);
+}
+
+// Get indexed pools created at or after the given unix timestamp, newest first
+export function getIndexedPools(
+  network: Network,
+  sinceTimestamp: number,
+  options: PoolQueryOptions = {}
+): PoolInitializedEvent[] {
+  if (!config.indexer.networks.includes(network)) {
+    throw new Error(`Network ${network} is not indexed (add it to INDEXER_NETWORKS)`);
+  }
+
+  return getStore().getPoolsSince(network, sinceTimestamp, options);
+}
+
+export function getIndexerStatus(network: Network): IndexerStatus | undefined {
+  if (!config.indexer.networks.includes(network)) {
+    return undefined;
+  }
+
+  return {
+    network,
+    lastIndexedBlock: getStore().getCursor(network)?.blockNumber ?? null,
+    headBlock: headBlocks.get(network) ?? null,
+    backfilled: backfilledNetworks.has(network),
+    poolCount: getStore().countPools(network),
+  };
+}
+
+// Ingest all blocks between the cursor and the current chain head
+async function indexNetwork(network: Network): Promise<void> {
+  if (runningTicks.has(network)) {
+    return;
+  }
+  runningTicks.add(network);
+
+  const store = getStore();
+  const chunkSize = config.network.blockChunkSize;
+  const backfilled = backfilledNetworks.has(network);
+
+  try {
+    const provider = getRpcProvider(network);
+    const head = await provider.getBlockNumber();
+
+    await checkForReorg(network);
+    await updateFinality(network);
+
+    const cursor = store.getCursor(network);
+    let fromBlock = cursor === null ? 0 : cursor.blockNumber + 1;
+    headBlocks.set(network, head);
+    setGauge("ekubo_indexer_head_lag_blocks", { network }, Math.max(0, head - fromBlock + 1));
+
+    // On the first tick, never start earlier than the lookback window; a cursor
+    // persisted long ago would otherwise force a scan of blocks we would prune anyway
+    if (!backfilled) {
+      const backfillStart = await findBackfillStartBlock(network, head);
+      fromBlock = Math.max(fromBlock, backfillStart);
+
+      logger.info("Backfilling", { network, from_block: fromBlock, to_block: head });
+    }
+
+    while (fromBlock <= head) {
+      // Read several chunks at once, but record them in order, so the cursor never moves past a block that wasn't ingested
+      const ranges: { fromBlock: number; toBlock: number }[] = [];
+      for (let start = fromBlock; start <= head && ranges.length < config.events.concurrency; start += chunkSize) {
+        ranges.push({ fromBlock: start, toBlock: Math.min(head, start + chunkSize - 1) });
+      }
+      const chunks = await mapWithConcurrency(ranges, config.events.concurrency, range =>
+        fetchChunk(network, range.fromBlock, range.toBlock).then(
+          chunk => ({ ...range, chunk, error: undefined }),
+          (error: unknown) => ({ ...range, chunk: undefined, error })
+        )
+      );
+
+      for (const { fromBlock: chunkFrom, toBlock, chunk, error } of chunks) {
+        if (!chunk) {
+          throw error;
+        }
+
+        // Traders are resolved in order, since a swap's pool may have been created in an earlier chunk of the batch
+        await resolveSwapTraders(network, chunk.events, chunk.pools);
+        store.recordIndexedChunk(network, { pools: chunk.pools, events: chunk.events }, { blockNumber: toBlock, blockHash: chunk.blockHash });
+        incrementCounter("ekubo_pools_ingested_total", { network }, chunk.pools.length);
+
+        const chunkFields = { network, from_block: chunkFrom, to_block: toBlock, pools: chunk.pools.length, core_events: chunk.events.length };
+        if (chunk.pools.length > 0) {
+          logger.info("Indexed new pools", chunkFields);
+        } else {
+          logger.debug("Indexed blocks", chunkFields);
+        }
+
+        if (chunk.pools.length > 0) {
+          notifyPoolListeners(network, chunk.pools);
+        }
+
+        fromBlock = toBlock + 1;
+      }
+    }
+
+    pruneExpiredPools(network);
+
+    if (!backfilled) {
+      backfilledNetworks.add(network);
+      logger.info("Backfill complete", { network, pools: store.countPools(network), to_block: head });
+    }
+  } catch (error) {
+    // The cursor only advances after a chunk succeeds, so the next tick retries from here
+    logger.error("Indexer tick failed", { network, cursor_block: store.getCursor(network)?.blockNumber, error });
+  } finally {
+    runningTicks.delete(network);
+  }
+}
+
+// Everything recorded for a chunk of blocks, plus the hash of its last block for the cursor
+async function fetchChunk(
+  network: Network,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ pools: PoolInitializedEvent[]; events: CoreEvent[]; blockHash: string | null }> {
+  // PoolInitialized and the activity events come from the same contract, so one scan reads both
+  const rawEvents = await fetchAllEvents(network, {
+    address: getNetworkConfig(network).coreAddress,
+    keys: [[config.ekubo.eventSelector, ...CORE_EVENT_SELECTORS]],
+    fromBlock,
+    toBlock,
+  });
+  const pools = await decodePoolInitializedEvents(network, rawEvents.filter(isPoolInitializedEvent));
+  const events = decodeCoreEvents(network, rawEvents.filter(event => !isPoolInitializedEvent(event)));
+  logger.debug("Read chunk", { network, from_block: fromBlock, to_block: toBlock, pools: pools.length, events: events.length });
+
+  const toBlockHeader = await getBlockHeader(network, toBlock);
+
+  return { pools, events, blockHash: toBlockHeader.block_hash || null };
+}
+
+function notifyPoolListeners(network: Network, pools: PoolInitializedEvent[]): void {
+  for (const listener of poolListeners) {
+    try {
+      listener(network, pools);
+    } catch (error) {
+      logger.error("Pool listener failed", { network, error });
+    }
+  }
+}
+
+// Roll back if the block at the cursor, or a block within the reorg depth holding Core events,
+// is no longer the one we indexed
+async function checkForReorg(network: Network): Promise<void> {
+  const cursor = getStore().getCursor(network);
+  if (!cursor?.blockHash) {
+    return;
+  }
+
+  const eventBlocks = getStore().getEventBlocks(network, cursor.blockNumber - config.indexer.reorgDepth);
+  const headers = await getBlockHeaders(network, [...eventBlocks.map(block => block.blockNumber), cursor.blockNumber]);
+
+  for (const { blockNumber, blockHash } of eventBlocks) {
+    const header = headers.get(blockNumber);
+    if (!header) {
+      throw new Error(`Could not read block ${blockNumber} on ${network}`);
+    }
+    if (header.block_hash !== blockHash) {
+      rollback(network, blockNumber - 1, `block ${blockNumber} holding Core events was replaced`);
+      return;
+    }
+  }
+
+  const header = headers.get(cursor.blockNumber);
+  if (!header) {
+    throw new Error(`Could not read block ${cursor.blockNumber} on ${network}`);
+  }
+  if (header.block_hash !== cursor.blockHash) {
+    rollback(network, cursor.blockNumber - config.indexer.reorgDepth, `cursor block ${cursor.blockNumber} was replaced`);
+  }
+}
+
+// Promote pools whose blocks reached L1, and roll back pools whose blocks were replaced or rejected.
+// Every unfinalized block is checked for replacement, not just the ones up to the first L2-only block.
+async function updateFinality(network: Network): Promise<void> {
+  const store = getStore();
+  const unfinalized = store.getUnfinalizedBlocks(network);
+  const headers = await getBlockHeaders(network, unfinalized.map(block => block.blockNumber));
+  // Blocks reach L1 in order, so none past the first one still on L2 is promoted
+  let promoting = true;
+
+  for (const { blockNumber, blockHash } of unfinalized) {
+    const header = headers.get(blockNumber);
+    if (!header) {
+      throw new Error(`Could not read block ${blockNumber} on ${network}`);
+    }
+
+    if (header.status === "REJECTED" || (blockHash && header.block_hash !== blockHash)) {
+      rollback(network, blockNumber - 1, `block ${blockNumber} was ${header.status === "REJECTED" ? "rejected" : "replaced"}`);
+      return;
+    }
+
+    if (promoting) {
+      const finality = toPoolFinality(header.status);
+      store.setBlockFinality(network, blockNumber, finality);
+      promoting = finality === "accepted_on_l1";
+    }
+  }
+}
+
+function rollback(network: Network, toBlock: number, reason: string): void {
+  const target = Math.max(0, toBlock);
+  const deleted = getStore().rollbackTo(network, target);
+  logger.warn("Reorg detected, rolled back", { network, reason, to_block: target, removed_pools: deleted });
+}
+
+// First block of the lookback window
+async function findBackfillStartBlock(network: Network, head: number): Promise<number> {
+  const cutoffTimeInSeconds = Math.floor(Date.now() / 1000) - (config.network.maxLookbackMinutes * 60);
+  return Math.min(head, await findFirstBlockAtOrAfter(network, cutoffTimeInSeconds, head));
+}
+
+// Drop pools older than the configured retention period
+function pruneExpiredPools(network: Network): void {
+  if (config.storage.retentionDays <= 0) {
+    return;
+  }
+
+  const cutoffTimeInSeconds = Math.floor(Date.now() / 1000) - (config.storage.retentionDays * 24 * 60 * 60);
+  const deleted = getStore().deletePoolsBefore(network, cutoffTimeInSeconds);
+
+  if (deleted > 0) {
+    logger.debug("Pruned expired pools", { network, pools: deleted, retention_days: config.storage.retentionDays });
+  }
+}
@@ -0,0 +1,70 @@
+import { getBlockTimestamp } from "./block-time";
+import type { Network } from "./config";
+import { logger } from "./logger";
+import type { PoolInitializedEvent } from "./pool-events";
+import { getStore } from "./store";
+
+/**
+ * Liquidity of indexed pools: whether anyone has added liquidity since the
+ * pool was initialized, how much is in it and across how many LP positions,
+ * and the token reserves backing it.
+ *
+ * The store maintains these aggregates from Ekubo `PositionUpdated` events as
+ * the indexer records them, and rebuilds them for the affected pools when a
+ * reorg rolls events back, so reading them never re-scans blocks. A position
+ * is identified like in Ekubo Core, by its owner (the locker, e.g. the
+ * Positions contract), salt and tick bounds.
+ */
+
+export interface PoolLiquidity {
+  pool_id: string;
+  // Sum of the liquidity of every position, whatever its price range, as a decimal string
+  total_liquidity: string;
+  // Positions currently holding liquidity
+  position_count: number;
+  first_liquidity_block?: number;
+  first_liquidity_transaction_hash?: string;
+}
+
+// Token balances held by a pool, in raw units, as decimal strings
+export interface PoolReserves {
+  reserve0: string;
+  reserve1: string;
+}
+
+export interface LiquiditySnapshot extends PoolLiquidity, Partial<PoolReserves> {
+  // Unix seconds
+  first_liquidity_at?: number;
+  // Seconds between the pool's initialization and the first liquidity added to it
+  time_to_first_liquidity?: number;
+}
+
+// Liquidity of an indexed pool; pools without any position update yet have none
+export function getPoolLiquidity(network: Network, poolId: string): PoolLiquidity {
+  return getStore().getPoolLiquidity(network, poolId) ?? { pool_id: poolId, total_liquidity: "0", position_count: 0 };
+}
+
+// Liquidity with first-liquidity timing, or undefined for pools that aren't in the index,
+// since their position updates were never ingested
+export async function getLiquiditySnapshot(network: Network, pool: PoolInitializedEvent): Promise<LiquiditySnapshot | undefined> {
+  if (!getStore().getPool(network, pool.pool_id)) {
+    return undefined;
+  }
+
+  const liquidity = { ...getPoolLiquidity(network, pool.pool_id), ...getStore().getPoolReserves(network, pool.pool_id) };
+  if (liquidity.first_liquidity_block === undefined) {
+    return liquidity;
+  }
+
+  try {
+    const firstLiquidityAt = await getBlockTimestamp(network, liquidity.first_liquidity_block);
+    return {
+      ...liquidity,
+      first_liquidity_at: firstLiquidityAt,
+      time_to_first_liquidity: Math.max(0, firstLiquidityAt - pool.timestamp),
+    };
+  } catch (error) {
+    logger.warn("Could not read block timestamp", { network, block: liquidity.first_liquidity_block, error });
+    return liquidity;
+  }
+}
@@ -0,0 +1,118 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Leveled, structured logging.
+ *
+ * Entries below LOG_LEVEL (debug < info < warn < error) are dropped. Each
+ * entry is one JSON object per line with `time`, `level`, `msg` and its
+ * fields, e.g. `network`, `from_block`/`to_block`, `entrypoint`,
+ * `request_id`. LOG_FORMAT=pretty prints the same entries as readable lines
+ * for local development instead.
+ *
+ * Fields come from three places, later ones winning: the context of the
+ * current async call chain (see withLogContext; the server sets
+ * `request_id` and `entrypoint` for each request, the indexer `network`
+ * for each tick), the logger's own bindings (see child), and the call.
+ * Errors passed as `error` are expanded to their message and stack.
+ *
+ * The level and format are set by src/config.ts once it has loaded, through
+ * configureLogging; this module doesn't import the config, since the config
+ * reports its own problems through the logger.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "json" | "pretty";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  isEnabled(level: LogLevel): boolean;
+  // A logger that adds these fields to every entry
+  child(bindings: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
+// Defaults until the config is loaded
+const settings: { level: LogLevel; format: LogFormat } = { level: "info", format: "json" };
+
+export function configureLogging(level: LogLevel, format: LogFormat): void {
+  settings.level = level;
+  settings.format = format;
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  const log = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (!isEnabled(level)) {
+      return;
+    }
+    write(level, { time: new Date().toISOString(), level, msg: message, ...serializeFields({ ...logContext.getStore(), ...bindings, ...fields }) });
+  };
+
+  return {
+    debug: (message, fields) => log("debug", message, fields),
+    info: (message, fields) => log("info", message, fields),
+    warn: (message, fields) => log("warn", message, fields),
+    error: (message, fields) => log("error", message, fields),
+    isEnabled,
+    child: childBindings => createLogger({ ...bindings, ...childBindings }),
+  };
+}
+
+export const logger = createLogger();
+
+// Run fn with fields added to every entry logged within it, including from anything it awaits
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+function isEnabled(level: LogLevel): boolean {
+  return LEVEL_ORDER[level] >= (LEVEL_ORDER[settings.level] ?? LEVEL_ORDER.info);
+}
+
+function serializeFields(fields: LogFields): LogFields {
+  const serialized: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value instanceof Error) {
+      serialized[key] = value.message;
+      serialized[`${key}_stack`] = value.stack;
+    } else if (typeof value === "bigint") {
+      serialized[key] = value.toString();
+    } else if (value !== undefined) {
+      serialized[key] = value;
+    }
+  }
+  return serialized;
+}
+
+function write(level: LogLevel, entry: LogFields): void {
+  const line = settings.format === "pretty" ? formatPretty(entry) : JSON.stringify(entry, (_, value) => typeof value === "bigint" ? value.toString() : value);
+  if (level === "warn" || level === "error") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+// 12:34:56.789 INFO  message key=value ..., with stacks on their own lines
+function formatPretty(entry: LogFields): string {
+  const { time, level, msg, ...fields } = entry;
+  const stacks: string[] = [];
+  const pairs: string[] = [];
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (key.endsWith("_stack")) {
+      stacks.push(String(value));
+    } else {
+      pairs.push(`${key}=${typeof value === "string" ? value : JSON.stringify(value)}`);
+    }
+  }
+
+  const header = `${String(time).slice(11, 23)} ${String(level).toUpperCase().padEnd(5)} ${msg}${pairs.length > 0 ? ` ${pairs.join(" ")}` : ""}`;
+  return [header, ...stacks].join("\n");
+}
@@ -0,0 +1,17 @@
+import { expect, test } from "bun:test";
+import { recordEntrypointRequest, registerEntrypointKey, renderMetrics } from "./metrics";
+
+test("entrypoint requests are labelled by registered key, everything else as other", () => {
+  registerEntrypointKey("top-pools");
+  const request = (path: string) => new Request(`http://localhost/entrypoints/${path}`, { method: "POST" });
+
+  recordEntrypointRequest(request("top-pools/invoke"), new Response(null, { status: 200 }));
+  recordEntrypointRequest(request("made-up-1/invoke"), new Response(null, { status: 404 }));
+  recordEntrypointRequest(request("made-up-2/invoke"), new Response(null, { status: 404 }));
+  recordEntrypointRequest(request("top-pools/unknown-route"), new Response(null, { status: 404 }));
+
+  const metrics = renderMetrics();
+  expect(metrics).toContain('ekubo_entrypoint_requests_total{entrypoint="top-pools",status="200"} 1');
+  expect(metrics).toContain('ekubo_entrypoint_requests_total{entrypoint="other",status="404"} 3');
+  expect(metrics).not.toContain("made-up");
+});
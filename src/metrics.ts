@@ -0,0 +1,135 @@
+/**
+ * Prometheus metrics, rendered in the text exposition format at /metrics.
+ *
+ * Counters and histograms are updated where things happen (RPC requests,
+ * event reads, cache lookups, ingestion, entrypoint calls); gauges describing
+ * current state (head lag, endpoint health) are set by src/health.ts right
+ * before rendering. Every metric is declared in METRICS, so the full list,
+ * with its help text, lives in one place.
+ */
+
+type MetricType = "counter" | "gauge" | "histogram";
+type Labels = Record<string, string>;
+
+const METRICS = {
+  ekubo_rpc_requests_total: { type: "counter", help: "JSON-RPC calls sent to endpoints, by network, method and HTTP status (or error)" },
+  ekubo_rpc_request_duration_seconds: { type: "histogram", help: "Duration of RPC HTTP requests, by network and method (batch for batches)" },
+  ekubo_events_chunk_duration_seconds: { type: "histogram", help: "Time to read every page of one getEvents block range, by network" },
+  ekubo_cache_requests_total: { type: "counter", help: "Cache lookups, by cache and result (hit or miss)" },
+  ekubo_pools_ingested_total: { type: "counter", help: "Pools recorded by the indexer, by network" },
+  ekubo_indexer_head_lag_blocks: { type: "gauge", help: "Blocks between the chain head and the indexer cursor at the start of the last tick, by network" },
+  ekubo_rpc_endpoint_healthy: { type: "gauge", help: "Whether an RPC endpoint is in rotation (1) or not (0), by network and host" },
+  ekubo_entrypoint_requests_total: { type: "counter", help: "Entrypoint invocations, by entrypoint and HTTP status" },
+  ekubo_entrypoint_paid_requests_total: { type: "counter", help: "Entrypoint invocations that carried an x402 payment and succeeded, by entrypoint" },
+} satisfies Record<string, { type: MetricType; help: string }>;
+
+export type MetricName = keyof typeof METRICS;
+
+// Upper bounds of the duration histogram buckets, in seconds
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Values per metric, keyed by their rendered label set
+const values = new Map<MetricName, Map<string, number>>();
+const histograms = new Map<MetricName, Map<string, { buckets: number[]; sum: number; count: number }>>();
+
+// Entrypoint keys added by src/agent.ts. Requests to anything else are labelled "other", so
+// clients can't create a new series per made-up path.
+const entrypointKeys = new Set<string>();
+// Routes the agent app serves under each entrypoint
+const ENTRYPOINT_ROUTES = new Set(["invoke", "stream"]);
+
+export function incrementCounter(name: MetricName, labels: Labels, amount = 1): void {
+  const series = getSeries(values, name);
+  const key = formatLabels(labels);
+  series.set(key, (series.get(key) ?? 0) + amount);
+}
+
+export function setGauge(name: MetricName, labels: Labels, value: number): void {
+  getSeries(values, name).set(formatLabels(labels), value);
+}
+
+export function observeDuration(name: MetricName, labels: Labels, seconds: number): void {
+  const series = getSeries(histograms, name);
+  const key = formatLabels(labels);
+  let histogram = series.get(key);
+  if (!histogram) {
+    histogram = { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    series.set(key, histogram);
+  }
+
+  DURATION_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) {
+      histogram.buckets[index]++;
+    }
+  });
+  histogram.sum += seconds;
+  histogram.count++;
+}
+
+// Count a cache lookup
+export function recordCacheLookup(cache: string, hit: boolean): void {
+  incrementCounter("ekubo_cache_requests_total", { cache, result: hit ? "hit" : "miss" });
+}
+
+export function registerEntrypointKey(key: string): void {
+  entrypointKeys.add(key);
+}
+
+// Count a request to /entrypoints/<key>/..., and whether it was paid for
+export function recordEntrypointRequest(request: Request, response: Response): void {
+  const match = new URL(request.url).pathname.match(/^\/entrypoints\/([^/]+)\/([^/]*)/);
+  if (!match) {
+    return;
+  }
+
+  const entrypoint = entrypointKeys.has(match[1]) && ENTRYPOINT_ROUTES.has(match[2]) ? match[1] : "other";
+  incrementCounter("ekubo_entrypoint_requests_total", { entrypoint, status: String(response.status) });
+  if (response.ok && request.headers.has("X-PAYMENT")) {
+    incrementCounter("ekubo_entrypoint_paid_requests_total", { entrypoint });
+  }
+}
+
+// Every metric in the Prometheus text exposition format
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const [name, { type, help }] of Object.entries(METRICS) as [MetricName, { type: MetricType; help: string }][]) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+
+    if (type === "histogram") {
+      for (const [labels, histogram] of histograms.get(name) ?? []) {
+        DURATION_BUCKETS.forEach((bound, index) => {
+          lines.push(`${name}_bucket{${joinLabels(labels, `le="${bound}"`)}} ${histogram.buckets[index]}`);
+        });
+        lines.push(`${name}_bucket{${joinLabels(labels, `le="+Inf"`)}} ${histogram.count}`);
+        lines.push(`${name}_sum${labels ? `{${labels}}` : ""} ${histogram.sum}`);
+        lines.push(`${name}_count${labels ? `{${labels}}` : ""} ${histogram.count}`);
+      }
+    } else {
+      for (const [labels, value] of values.get(name) ?? []) {
+        lines.push(`${name}${labels ? `{${labels}}` : ""} ${value}`);
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function getSeries<V>(metrics: Map<MetricName, Map<string, V>>, name: MetricName): Map<string, V> {
+  let series = metrics.get(name);
+  if (!series) {
+    series = new Map();
+    metrics.set(name, series);
+  }
+  return series;
+}
+
+function formatLabels(labels: Labels): string {
+  return Object.entries(labels)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+function joinLabels(labels: string, extra: string): string {
+  return labels ? `${labels},${extra}` : extra;
+}
@@ -0,0 +1,223 @@
+import { BigNumberish, hash, num, RpcProvider } from "starknet";
+import { config, getNetworkConfig, Network } from "./config";
+import { logger } from "./logger";
+import { getRpcProvider } from "./rpc";
+import { getBlockHeaders, getCachedBlockTimestamp } from "./block-time";
+import { decodePoolInitialized } from "./cairo-serde";
+import { EmittedEvent, fetchAllEvents } from "./event-fetcher";
+import { PoolPrice, sqrtRatioToPrice, tickToPrice } from "./pricing";
+import { classifyExtension, ExtensionType } from "./extensions";
+import { getDisplaySymbol, getToken } from "./token-registry";
+
+// How final the block containing an event is, from Starknet's block status
+export type PoolFinality = "pending" | "accepted_on_l2" | "accepted_on_l1";
+
+// PoolInitialized event interface based on actual Ekubo Core contract
+export interface PoolInitializedEvent {
+  pool_id: string;
+  pool_key: {
+    token0: string;
+    token1: string;
+    // 0.128 fixed-point u128 as a decimal string; too large for a JS number
+    fee: string;
+    tick_spacing: number;
+    extension: string;
+  };
+  initial_tick: number;
+  // 128.128 fixed-point square root of the initial price, as a decimal string
+  sqrt_ratio: string;
+  // Decimal-adjusted initial price, when both token decimals are known
+  initial_price?: PoolPrice;
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+  timestamp: number;
+  finality: PoolFinality;
+  description?: string;
+  token0_symbol?: string;
+  token1_symbol?: string;
+  token0_decimals?: number;
+  token1_decimals?: number;
+  // Kind of pool, from the extension in its pool key (see src/extensions.ts)
+  extension_type?: ExtensionType;
+  extension_name?: string;
+}
+
+// Map a Starknet block status to the finality we report on pools
+export function toPoolFinality(status: string | undefined): PoolFinality {
+  switch (status) {
+    case "ACCEPTED_ON_L1":
+      return "accepted_on_l1";
+    case "ACCEPTED_ON_L2":
+      return "accepted_on_l2";
+    default:
+      return "pending";
+  }
+}
+
+// Identity of a pool: Poseidon hash of the exact pool key felts. Ekubo only
+// initializes a given pool key once, so this also identifies the PoolInitialized event
+export function getPoolId(poolKey: {
+  token0: BigNumberish;
+  token1: BigNumberish;
+  fee: BigNumberish;
+  tick_spacing: BigNumberish;
+  extension: BigNumberish;
+}): string {
+  return num.toHex(hash.computePoseidonHashOnElements([
+    poolKey.token0,
+    poolKey.token1,
+    poolKey.fee,
+    poolKey.tick_spacing,
+    poolKey.extension,
+  ]));
+}
+
+// Fetch PoolInitialized events from the blockchain
+export async function fetchPoolInitializedEvents(
+  fromBlock: number,
+  toBlock: number,
+  network: Network = "mainnet"
+): Promise<PoolInitializedEvent[]> {
+  const contractAddress = getNetworkConfig(network).coreAddress;
+
+  try {
+    // Get event logs, following continuation tokens so busy ranges aren't truncated
+    const events = await fetchAllEvents(network, {
+      address: contractAddress,
+      keys: [[config.ekubo.eventSelector]], // Event selector from config (nested array)
+      fromBlock,
+      toBlock,
+    });
+
+    const pools = await decodePoolInitializedEvents(network, events);
+
+    logger.debug("Found PoolInitialized events", { network, from_block: fromBlock, to_block: toBlock, count: pools.length });
+
+    return pools;
+  } catch (error) {
+    // Let the caller decide how to recover; silently returning no pools would
+    // make the indexer advance its cursor past blocks it never actually read
+    logger.error("Could not fetch PoolInitialized events", { network, from_block: fromBlock, to_block: toBlock, error });
+    throw error;
+  }
+}
+
+// Whether a raw Core event is a PoolInitialized event
+export function isPoolInitializedEvent(event: EmittedEvent): boolean {
+  return event.keys[0] !== undefined && BigInt(event.keys[0]) === BigInt(config.ekubo.eventSelector);
+}
+
+// Decode raw PoolInitialized events, reading the headers of their blocks for timestamps and finality.
+// Events that can't be decoded are logged and skipped.
+export async function decodePoolInitializedEvents(network: Network, events: EmittedEvent[]): Promise<PoolInitializedEvent[]> {
+  const provider = getRpcProvider(network);
+  const pools: PoolInitializedEvent[] = [];
+  const uniqueBlockNumbers = [...new Set(events.map(e => e.block_number))];
+
+  // Block timestamps from the cache, and the headers of every other block in batched requests
+  const blockTimestamps = new Map<number, number>();
+  // Statuses of blocks we fetched; blocks served from cache are reported as accepted_on_l2
+  // until the indexer's finality check promotes them
+  const blockStatuses = new Map<number, string>();
+  const uncachedBlockNumbers: number[] = [];
+
+  for (const blockNumber of uniqueBlockNumbers) {
+    const cachedTimestamp = getCachedBlockTimestamp(network, blockNumber);
+    if (cachedTimestamp !== undefined) {
+      blockTimestamps.set(blockNumber, cachedTimestamp);
+    } else {
+      uncachedBlockNumbers.push(blockNumber);
+    }
+  }
+
+  if (uncachedBlockNumbers.length > 0) {
+    logger.debug("Fetching headers of uncached blocks", { network, blocks: uncachedBlockNumbers.length });
+
+    for (const [blockNumber, header] of await getBlockHeaders(network, uncachedBlockNumbers)) {
+      blockTimestamps.set(blockNumber, header.timestamp);
+      blockStatuses.set(blockNumber, header.status);
+    }
+  }
+
+  for (const event of events) {
+    const eventData = await extractPoolEventData(
+      event,
+      provider,
+      network,
+      blockTimestamps.get(event.block_number),
+      toPoolFinality(blockStatuses.get(event.block_number) ?? "ACCEPTED_ON_L2")
+    );
+    if (eventData) {
+      pools.push(eventData);
+    }
+  }
+
+  return pools;
+}
+
+// Extract pool data from PoolInitialized event based on actual Ekubo Core structure
+async function extractPoolEventData(
+  event: EmittedEvent,
+  provider: RpcProvider,
+  network: Network,
+  blockTimestamp: number | undefined,
+  finality: PoolFinality
+): Promise<PoolInitializedEvent | null> {
+  try {
+    const { pool_key, initial_tick, sqrt_ratio } = decodePoolInitialized(event.data || []);
+
+    return resolvePoolMetadata({
+      pool_id: getPoolId(pool_key),
+      pool_key,
+      initial_tick,
+      sqrt_ratio,
+      block_number: Number(event.block_number || 0),
+      block_hash: event.block_hash || "",
+      transaction_hash: event.transaction_hash || "",
+      timestamp: blockTimestamp || 0,
+      // Events from the pending block carry no block hash yet
+      finality: event.block_hash ? finality : "pending",
+    }, network);
+  } catch (error) {
+    logger.error("Could not decode PoolInitialized event", { network, transaction_hash: event.transaction_hash, error });
+    return null;
+  }
+}
+
+// Whether a pool is still missing token or extension metadata that could be filled in later
+export function hasUnresolvedMetadata(pool: PoolInitializedEvent): boolean {
+  return pool.token0_symbol === undefined || pool.token1_symbol === undefined
+    || pool.token0_decimals === undefined || pool.token1_decimals === undefined
+    || pool.extension_type === undefined;
+}
+
+// Fill in token symbols, decimals, description and initial price from the token registry,
+// and the extension type from the extension registry
+export async function resolvePoolMetadata(pool: PoolInitializedEvent, network: Network): Promise<PoolInitializedEvent> {
+  const [token0, token1, extension] = await Promise.all([
+    getToken(pool.pool_key.token0, network),
+    getToken(pool.pool_key.token1, network),
+    classifyExtension(pool.pool_key.extension, network),
+  ]);
+
+  const token0Decimals = token0?.decimals;
+  const token1Decimals = token1?.decimals;
+
+  // Prefer the exact sqrt ratio and fall back to the tick if it can't be used
+  const initialPrice = token0Decimals !== undefined && token1Decimals !== undefined
+    ? sqrtRatioToPrice(pool.sqrt_ratio, token0Decimals, token1Decimals) ?? tickToPrice(pool.initial_tick, token0Decimals, token1Decimals)
+    : undefined;
+
+  return {
+    ...pool,
+    initial_price: initialPrice,
+    description: `${getDisplaySymbol(pool.pool_key.token0, token0)}-${getDisplaySymbol(pool.pool_key.token1, token1)}`,
+    token0_symbol: token0?.symbol,
+    token1_symbol: token1?.symbol,
+    token0_decimals: token0Decimals,
+    token1_decimals: token1Decimals,
+    extension_type: extension?.type,
+    extension_name: extension?.name,
+  };
+}
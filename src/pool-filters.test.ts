@@ -0,0 +1,36 @@
+import { expect, test } from "bun:test";
+import type { PoolInitializedEvent } from "./pool-events";
+import { matchesPoolFilter } from "./pool-filters";
+import { findTokensBySymbol } from "./token-registry";
+
+const usdc = findTokensBySymbol("USDC", "mainnet").find(token => token.verified)!;
+const eth = findTokensBySymbol("ETH", "mainnet").find(token => token.verified)!;
+
+function makePool(token0: string, token1: string, symbols: [string, string]): PoolInitializedEvent {
+  return {
+    pool_id: `0x${token0.slice(-4)}${token1.slice(-4)}`,
+    pool_key: { token0, token1, fee: "0", tick_spacing: 1000, extension: "0x0" },
+    initial_tick: 0,
+    sqrt_ratio: (2n ** 128n).toString(),
+    block_number: 1,
+    block_hash: "0xb1",
+    transaction_hash: "0xt1",
+    timestamp: 1,
+    finality: "accepted_on_l2",
+    token0_symbol: symbols[0],
+    token1_symbol: symbols[1],
+  };
+}
+
+test("symbols only match verified tokens, never tokens copying their symbol", () => {
+  const real = makePool(eth.address, usdc.address, ["ETH", "USDC"]);
+  const impersonator = makePool(eth.address, "0x1234", ["ETH", "USDC"]);
+
+  for (const filter of [{ token0: "usdc" }, { token1: "USDC" }, { tokens: ["USDC"] }, { token0: "USDC", token1: "ETH" }]) {
+    expect(matchesPoolFilter(real, filter, "mainnet")).toBe(true);
+    expect(matchesPoolFilter(impersonator, filter, "mainnet")).toBe(false);
+  }
+
+  // Addresses match whatever the token is
+  expect(matchesPoolFilter(impersonator, { token0: "0x01234" }, "mainnet")).toBe(true);
+});
@@ -0,0 +1,239 @@
+import type { Network } from "./config";
+import { EXTENSION_TYPES, ExtensionType } from "./extensions";
+import { getPoolLiquidity } from "./liquidity";
+import type { PoolInitializedEvent } from "./pool-events";
+import { scorePoolRisk } from "./risk";
+import { findTokensBySymbol, isVerifiedToken } from "./token-registry";
+
+/**
+ * Filters that select pools by their tokens, fee, tick spacing, extension
+ * (address or type), liquidity and risk score, plus sorting and cursor-based pagination. Shared by everything
+ * that hands pools to consumers, so a filter means the same thing wherever
+ * it is used.
+ *
+ * Tokens are given as addresses or symbols. Addresses are compared
+ * numerically so padding and case don't matter; anything that isn't
+ * 0x-prefixed is a symbol, matched case-insensitively against verified
+ * tokens only, since anyone can deploy a token with the symbol of another.
+ */
+
+export interface PoolFilter {
+  // Pools containing any of these tokens
+  tokens?: string[];
+  // Pools containing these tokens on either side; with both set, the pool must be that pair
+  token0?: string;
+  token1?: string;
+  // Raw pool key fees (0.128 fixed point), as decimal or hex strings
+  fees?: string[];
+  minFee?: string;
+  maxFee?: string;
+  tickSpacing?: number;
+  // Extension address; "none" (or 0x0) selects pools without an extension
+  extension?: string;
+  // Pools whose extension is of one of these types
+  extensionTypes?: ExtensionType[];
+  // Only pools whose tokens are both in the verified token list
+  knownTokensOnly?: boolean;
+  // Only pools holding at least this much liquidity (raw units, decimal or hex string)
+  minLiquidity?: string;
+  // Only pools with at most this risk score (0-100, see src/risk.ts)
+  maxRisk?: number;
+}
+
+export type PoolSortField = "block_number" | "timestamp" | "fee" | "tick_spacing";
+
+export interface PoolSort {
+  field: PoolSortField;
+  order: "asc" | "desc";
+}
+
+export interface PoolPage {
+  pools: PoolInitializedEvent[];
+  // Pass back as `cursor` to get the next page; undefined on the last page
+  next_cursor?: string;
+}
+
+// Position in a sorted pool list: the sort value and pool id of the last pool returned
+interface PageCursor {
+  value: string;
+  pool_id: string;
+}
+
+// Whether a pool passes every criterion set in the filter
+export function matchesPoolFilter(pool: PoolInitializedEvent, filter: PoolFilter, network: Network): boolean {
+  if (filter.tokens?.length && !filter.tokens.some(token => hasToken(pool, token, 0, network) || hasToken(pool, token, 1, network))) {
+    return false;
+  }
+
+  if (filter.token0 !== undefined && filter.token1 !== undefined) {
+    const matchesPair = (hasToken(pool, filter.token0, 0, network) && hasToken(pool, filter.token1, 1, network))
+      || (hasToken(pool, filter.token0, 1, network) && hasToken(pool, filter.token1, 0, network));
+    if (!matchesPair) {
+      return false;
+    }
+  } else {
+    const token = filter.token0 ?? filter.token1;
+    if (token !== undefined && !hasToken(pool, token, 0, network) && !hasToken(pool, token, 1, network)) {
+      return false;
+    }
+  }
+
+  const fee = BigInt(pool.pool_key.fee);
+  if (filter.fees?.length && !filter.fees.some(candidate => BigInt(candidate) === fee)) {
+    return false;
+  }
+  if (filter.minFee !== undefined && fee < BigInt(filter.minFee)) {
+    return false;
+  }
+  if (filter.maxFee !== undefined && fee > BigInt(filter.maxFee)) {
+    return false;
+  }
+
+  if (filter.tickSpacing !== undefined && pool.pool_key.tick_spacing !== filter.tickSpacing) {
+    return false;
+  }
+
+  if (filter.extension !== undefined && parseExtension(filter.extension) !== BigInt(pool.pool_key.extension)) {
+    return false;
+  }
+
+  if (filter.extensionTypes?.length && !filter.extensionTypes.includes(pool.extension_type ?? "unknown")) {
+    return false;
+  }
+
+  if (filter.knownTokensOnly && !(isVerifiedToken(pool.pool_key.token0, network) && isVerifiedToken(pool.pool_key.token1, network))) {
+    return false;
+  }
+
+  if (filter.minLiquidity !== undefined && BigInt(getPoolLiquidity(network, pool.pool_id).total_liquidity) < BigInt(filter.minLiquidity)) {
+    return false;
+  }
+
+  // Scored last, as it is the most expensive check
+  if (filter.maxRisk !== undefined && scorePoolRisk(pool, network).risk_score > filter.maxRisk) {
+    return false;
+  }
+
+  return true;
+}
+
+// Reject filters that would fail when matched, so bad input surfaces when the filter is created
+export function validatePoolFilter(filter: PoolFilter): void {
+  const tokens = [...(filter.tokens ?? []), filter.token0, filter.token1];
+  const numbers = [
+    ...(filter.fees ?? []),
+    filter.minFee,
+    filter.maxFee,
+    filter.minLiquidity,
+    ...tokens.filter(token => token?.startsWith("0x")),
+  ];
+
+  for (const value of numbers) {
+    if (value !== undefined) {
+      parseNumber(value);
+    }
+  }
+  if (filter.extension !== undefined) {
+    parseExtension(filter.extension);
+  }
+  for (const type of filter.extensionTypes ?? []) {
+    if (!EXTENSION_TYPES.includes(type)) {
+      throw new Error(`Invalid extension type "${type}": expected one of ${EXTENSION_TYPES.join(", ")}`);
+    }
+  }
+  if (filter.tickSpacing !== undefined && !Number.isInteger(filter.tickSpacing)) {
+    throw new Error(`Invalid tick spacing "${filter.tickSpacing}": expected an integer`);
+  }
+  if (filter.maxRisk !== undefined && !(filter.maxRisk >= 0 && filter.maxRisk <= 100)) {
+    throw new Error(`Invalid max risk "${filter.maxRisk}": expected a number between 0 and 100`);
+  }
+}
+
+// Sort pools by a field, breaking ties by pool id so the order is total
+export function sortPools(pools: PoolInitializedEvent[], sort: PoolSort): PoolInitializedEvent[] {
+  const direction = sort.order === "asc" ? 1 : -1;
+  return [...pools].sort((a, b) => direction * compareKeys(getSortValue(a, sort.field), a.pool_id, getSortValue(b, sort.field), b.pool_id));
+}
+
+// Take a page of pools sorted with sortPools, starting after the cursor
+export function paginatePools(pools: PoolInitializedEvent[], sort: PoolSort, limit: number, cursor?: string): PoolPage {
+  let start = 0;
+
+  if (cursor) {
+    const position = decodeCursor(cursor);
+    const direction = sort.order === "asc" ? 1 : -1;
+    // Keyset pagination: pools indexed since the previous page don't shift the next one
+    const index = pools.findIndex(pool =>
+      direction * compareKeys(getSortValue(pool, sort.field), pool.pool_id, BigInt(position.value), position.pool_id) > 0
+    );
+    start = index === -1 ? pools.length : index;
+  }
+
+  const page = pools.slice(start, start + limit);
+  const last = page[page.length - 1];
+
+  return {
+    pools: page,
+    next_cursor: start + limit < pools.length && last
+      ? encodeCursor({ value: getSortValue(last, sort.field).toString(), pool_id: last.pool_id })
+      : undefined,
+  };
+}
+
+function hasToken(pool: PoolInitializedEvent, token: string, side: 0 | 1, network: Network): boolean {
+  const address = BigInt(side === 0 ? pool.pool_key.token0 : pool.pool_key.token1);
+  if (token.startsWith("0x")) {
+    return address === BigInt(token);
+  }
+
+  return findTokensBySymbol(token, network).some(candidate => candidate.verified && BigInt(candidate.address) === address);
+}
+
+function parseExtension(extension: string): bigint {
+  return extension.toLowerCase() === "none" ? 0n : parseNumber(extension);
+}
+
+function parseNumber(value: string): bigint {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`Invalid filter value "${value}": expected a decimal or 0x-prefixed hex number`);
+  }
+}
+
+function getSortValue(pool: PoolInitializedEvent, field: PoolSortField): bigint {
+  switch (field) {
+    case "block_number":
+      return BigInt(pool.block_number);
+    case "timestamp":
+      return BigInt(pool.timestamp);
+    case "fee":
+      return BigInt(pool.pool_key.fee);
+    case "tick_spacing":
+      return BigInt(pool.pool_key.tick_spacing);
+  }
+}
+
+function compareKeys(valueA: bigint, idA: string, valueB: bigint, idB: string): number {
+  if (valueA !== valueB) {
+    return valueA < valueB ? -1 : 1;
+  }
+  return idA === idB ? 0 : idA < idB ? -1 : 1;
+}
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): PageCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    BigInt(decoded.value);
+    if (typeof decoded.pool_id !== "string") {
+      throw new Error("missing pool_id");
+    }
+    return decoded;
+  } catch {
+    throw new Error(`Invalid cursor "${cursor}"`);
+  }
+}
@@ -0,0 +1,179 @@
+import { afterAll, beforeAll, expect, setSystemTime, test } from "bun:test";
+import events from "../fixtures/events/pool-initialized.json";
+import { config } from "./config";
+import type { SwappedEvent } from "./core-events";
+import { fetchPoolInitializedEvents, PoolInitializedEvent } from "./pool-events";
+import { getLatestPools, listedPoolSchema, poolQuerySchema, queryPools, rankedPoolSchema, toListedPools, toRankedPools } from "./pool-listing";
+import { getPoolsInRange } from "./pool-range";
+import { getStore } from "./store";
+import { getSwapActivity, rankPoolsBySwaps, SwapRanking } from "./swap-activity";
+
+// Every RPC call below is answered from the hand-written fixtures in fixtures/rpc/mainnet (see the
+// README). Their blocks are six seconds apart from FIRST_BLOCK_TIMESTAMP, and "now" is five minutes after the last one.
+const FIRST_BLOCK = events.negative_tick.block_number;
+const LAST_BLOCK = events.large_sqrt_ratio.block_number;
+const FIRST_BLOCK_TIMESTAMP = 1760000000;
+const NOW = FIRST_BLOCK_TIMESTAMP + (LAST_BLOCK - FIRST_BLOCK) * 6 + 300;
+
+let pools: PoolInitializedEvent[] = [];
+
+beforeAll(() => {
+  setSystemTime(new Date(NOW * 1000));
+});
+
+afterAll(() => {
+  setSystemTime();
+});
+
+test("fetchPoolInitializedEvents decodes the events replayed from the fixtures", async () => {
+  pools = await fetchPoolInitializedEvents(FIRST_BLOCK, LAST_BLOCK, "mainnet");
+
+  expect(pools.map(pool => pool.transaction_hash)).toEqual([events.negative_tick.transaction_hash, events.large_sqrt_ratio.transaction_hash]);
+
+  const [ethUsdc, usdcDai] = pools;
+  expect(ethUsdc).toMatchObject({
+    initial_tick: -19624663,
+    block_number: FIRST_BLOCK,
+    block_hash: events.negative_tick.block_hash,
+    timestamp: FIRST_BLOCK_TIMESTAMP,
+    finality: "accepted_on_l2",
+    description: "ETH-USDC",
+    token0_decimals: 18,
+    token1_decimals: 6,
+    extension_type: "none",
+  });
+  expect(ethUsdc.initial_price!.token1_per_token0).toBeCloseTo(3000, 2);
+
+  expect(usdcDai.description).toBe("USDC-DAI");
+  expect(usdcDai.timestamp).toBe(FIRST_BLOCK_TIMESTAMP + (LAST_BLOCK - FIRST_BLOCK) * 6);
+  expect(usdcDai.initial_price!.token1_per_token0).toBeCloseTo(1, 4);
+});
+
+test("replays fail instead of reaching a node when a call wasn't recorded", async () => {
+  await expect(fetchPoolInitializedEvents(FIRST_BLOCK - 10, FIRST_BLOCK - 1, "mainnet")).rejects.toThrow("No recorded reply for starknet_getEvents");
+});
+
+test("list-latest-pools lists the fixture pools with their liquidity, swaps, risk and USD values", async () => {
+  getStore().recordIndexedChunk("mainnet", { pools, events: [] }, { blockNumber: LAST_BLOCK, blockHash: events.large_sqrt_ratio.block_hash });
+
+  const latestPools = await getLatestPools(60, "mainnet");
+  const { pools: page, next_cursor } = queryPools(latestPools, poolQuerySchema.parse({ known_tokens_only: true }), "mainnet");
+  const listed = listedPoolSchema.array().parse(await toListedPools(page, "mainnet"));
+
+  expect(next_cursor).toBeUndefined();
+  // Newest first
+  expect(listed.map(pool => pool.description)).toEqual(["USDC-DAI", "ETH-USDC"]);
+
+  const ethUsdc = listed[1];
+  expect(ethUsdc).toMatchObject({
+    fee_bps: 5,
+    standard_tier: true,
+    risk_score: 0,
+    risk_reasons: [],
+    liquidity: { total_liquidity: "0", position_count: 0 },
+  });
+  expect(ethUsdc.swaps!["24h"]).toEqual({ swap_count: 0, volume0: "0", volume1: "0", unique_traders: 0 });
+  // USD prices come from the Pragma oracle replies in the fixtures
+  expect(ethUsdc.usd.token0_usd).toBe(3000);
+  expect(ethUsdc.usd.token1_usd).toBe(1);
+  expect(ethUsdc.usd.initial_token0_usd).toBeCloseTo(3000, 2);
+  expect(ethUsdc.usd.volume_usd).toEqual({ "1h": 0, "24h": 0, "7d": 0 });
+});
+
+test("list-pools-in-range reads the range from the chain and reports the chunks it couldn't read", async () => {
+  const chunkSize = config.network.blockChunkSize;
+  // The range is split so one chunk is exactly the FIRST_BLOCK..LAST_BLOCK scan in the fixtures and the one before it has no fixture
+  config.network.blockChunkSize = LAST_BLOCK - FIRST_BLOCK + 1;
+  try {
+    const range = { fromBlock: FIRST_BLOCK - config.network.blockChunkSize, toBlock: LAST_BLOCK };
+    const rangePools = await getPoolsInRange("mainnet", range);
+
+    expect(rangePools.failedRanges).toEqual([{ fromBlock: range.fromBlock, toBlock: FIRST_BLOCK - 1 }]);
+    expect(rangePools.pools.map(pool => pool.description)).toEqual(["ETH-USDC", "USDC-DAI"]);
+
+    // The shared query inputs apply to range results as they do to the latest pools
+    const { pools: page, next_cursor } = queryPools(rangePools.pools, poolQuerySchema.parse({ token0: "DAI", sort_order: "asc" }), "mainnet");
+    const listed = listedPoolSchema.array().parse(await toListedPools(page, "mainnet"));
+    expect(next_cursor).toBeUndefined();
+    expect(listed.map(pool => pool.description)).toEqual(["USDC-DAI"]);
+    expect(listed[0].liquidity).toBeDefined();
+
+    // A range none of whose chunks can be read fails instead of returning no pools
+    await expect(getPoolsInRange("mainnet", { fromBlock: range.fromBlock, toBlock: FIRST_BLOCK - 1 })).rejects.toThrow("No recorded reply for starknet_getEvents");
+  } finally {
+    config.network.blockChunkSize = chunkSize;
+  }
+});
+
+test("list-pools-in-range paginates range results with the cursor", async () => {
+  const { pools } = await getPoolsInRange("mainnet", { fromBlock: FIRST_BLOCK, toBlock: LAST_BLOCK });
+
+  const first = queryPools(pools, poolQuerySchema.parse({ limit: 1, sort_by: "timestamp", sort_order: "asc" }), "mainnet");
+  expect(first.pools.map(pool => pool.description)).toEqual(["ETH-USDC"]);
+  expect(first.next_cursor).toBeDefined();
+
+  const second = queryPools(pools, poolQuerySchema.parse({ limit: 1, sort_by: "timestamp", sort_order: "asc", cursor: first.next_cursor }), "mainnet");
+  expect(second.pools.map(pool => pool.description)).toEqual(["USDC-DAI"]);
+  expect(second.next_cursor).toBeUndefined();
+});
+
+function makeSwap(pool: PoolInitializedEvent, index: number, amount0: bigint, amount1: bigint, trader: string): SwappedEvent {
+  return {
+    type: "Swapped",
+    block_number: FIRST_BLOCK + 10,
+    block_hash: "0xb10",
+    transaction_hash: `0x5${index}`,
+    event_index: 0,
+    locker: "0x10",
+    pool_id: pool.pool_id,
+    pool_key: pool.pool_key,
+    params: { amount: amount0.toString(), is_token1: false, sqrt_ratio_limit: "0", skip_ahead: "0" },
+    delta: { amount0: amount0.toString(), amount1: amount1.toString() },
+    sqrt_ratio_after: pool.sqrt_ratio,
+    tick_after: pool.initial_tick + 1000,
+    liquidity_after: "0",
+    trader,
+  };
+}
+
+test("top-pools ranks pools by the swap aggregates recorded with their events", async () => {
+  const [ethUsdc, usdcDai] = pools;
+  getStore().recordIndexedChunk("mainnet", {
+    pools: [],
+    events: [
+      makeSwap(ethUsdc, 1, 10n ** 18n, -3000n * 10n ** 6n, "0xa"),
+      makeSwap(ethUsdc, 2, -(10n ** 18n) / 2n, 1500n * 10n ** 6n, "0xb"),
+      makeSwap(usdcDai, 3, 1000n * 10n ** 6n, -(10n ** 21n), "0xa"),
+      makeSwap(usdcDai, 4, 1000n * 10n ** 6n, -(10n ** 21n), "0xa"),
+      makeSwap(usdcDai, 5, 1000n * 10n ** 6n, -(10n ** 21n), "0xa"),
+    ],
+  }, { blockNumber: LAST_BLOCK, blockHash: events.large_sqrt_ratio.block_hash });
+
+  // Every swap is within each window, volumes are absolute amounts and traders are counted once
+  const activity = await getSwapActivity("mainnet", ethUsdc);
+  expect(activity!.windows["1h"]).toEqual({ swap_count: 2, volume0: (15n * 10n ** 17n).toString(), volume1: (4500n * 10n ** 6n).toString(), unique_traders: 2 });
+  expect(activity!.windows["7d"]).toEqual(activity!.windows["1h"]);
+  expect(activity!.last_swap_block).toBe(FIRST_BLOCK + 10);
+  expect(activity!.price_change_percent).toBeCloseTo(0.1, 3);
+
+  const latestPools = await getLatestPools(60, "mainnet");
+  const rank = async (ranking: SwapRanking, quoteToken?: string) =>
+    rankedPoolSchema.array().parse(await toRankedPools(await rankPoolsBySwaps("mainnet", latestPools, "24h", ranking, quoteToken), "mainnet"));
+
+  // USDC is token1 of ETH-USDC and token0 of USDC-DAI; volumes are compared in it on both sides
+  const byVolume = await rank("volume", "USDC");
+  expect(byVolume.map(pool => [pool.rank, pool.description, pool.quote_volume])).toEqual([
+    [1, "ETH-USDC", (4500n * 10n ** 6n).toString()],
+    [2, "USDC-DAI", (3000n * 10n ** 6n).toString()],
+  ]);
+  expect(byVolume[0].swaps!["24h"].swap_count).toBe(2);
+  expect(byVolume[0].usd.volume_usd!["24h"]).toBeCloseTo(4500, 6);
+
+  // Only pools containing the quote token are ranked by volume
+  expect((await rank("volume", "ETH")).map(pool => pool.description)).toEqual(["ETH-USDC"]);
+  expect((await rank("swap_count")).map(pool => pool.description)).toEqual(["USDC-DAI", "ETH-USDC"]);
+  expect((await rank("unique_traders")).map(pool => pool.description)).toEqual(["ETH-USDC", "USDC-DAI"]);
+
+  // Quote token symbols resolve to verified tokens only
+  await expect(rank("volume", "NOT-A-TOKEN")).rejects.toThrow("No verified token has the symbol NOT-A-TOKEN");
+});
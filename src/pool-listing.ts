@@ -0,0 +1,275 @@
+import { z } from "zod";
+import { config, Network } from "./config";
+import { mapWithConcurrency } from "./event-fetcher";
+import { EXTENSION_TYPES } from "./extensions";
+import { describeFeeTier } from "./fees";
+import { getIndexedPools, getIndexerStatus } from "./indexer";
+import { getLiquiditySnapshot, LiquiditySnapshot } from "./liquidity";
+import { logger } from "./logger";
+import { hasUnresolvedMetadata, PoolInitializedEvent, resolvePoolMetadata } from "./pool-events";
+import { matchesPoolFilter, paginatePools, PoolFilter, PoolPage, PoolSort, sortPools, validatePoolFilter } from "./pool-filters";
+import { getPoolUsdValues, PoolUsdValues } from "./prices";
+import { scorePoolRisk } from "./risk";
+import { getStore, PoolQueryOptions } from "./store";
+import { getSwapActivity, RankedPool, SwapActivity } from "./swap-activity";
+
+/**
+ * Pools as the pool list entrypoints of src/agent.ts return them: the shared
+ * query inputs, the listed pool schema, and the reads that fill it in
+ * (metadata retries, liquidity, swap activity, USD values and risk).
+ */
+
+// Filter, sort and pagination inputs shared by the pool list entrypoints (see src/pool-filters.ts)
+export const poolQuerySchema = z.object({
+  token0: z.string().optional().describe("Token address or verified token symbol, on either side of the pool"),
+  token1: z.string().optional().describe("Second token address or verified token symbol; with token0, selects that pair"),
+  min_fee: z.string().optional().describe("Minimum raw pool key fee (0.128 fixed point)"),
+  max_fee: z.string().optional().describe("Maximum raw pool key fee (0.128 fixed point)"),
+  tick_spacing: z.number().int().optional().describe("Exact tick spacing"),
+  extension: z.string().optional().describe("Extension address, or \"none\" for pools without an extension"),
+  extension_types: z.array(z.enum(EXTENSION_TYPES)).optional().describe("Kinds of pool to return, by extension type"),
+  known_tokens_only: z.boolean().default(false).describe("Only return pools whose tokens are both in the verified token list"),
+  max_risk: z.number().min(0).max(100).optional().describe("Only return pools with at most this risk score (0-100)"),
+  sort_by: z.enum(["block_number", "timestamp", "fee", "tick_spacing"]).default("block_number").describe("Field to sort by"),
+  sort_order: z.enum(["asc", "desc"]).default("desc").describe("Sort direction"),
+  limit: z.number().int().min(1).max(500).default(100).describe("Maximum number of pools per page (1-500)"),
+  cursor: z.string().optional().describe("next_cursor from the previous page"),
+});
+
+// Fee and tick spacing in readable units (see src/fees.ts)
+const feeTierSchema = z.object({
+  fee_percent: z.number(),
+  fee_bps: z.number(),
+  tick_spacing_percent: z.number(),
+  standard_tier: z.boolean(),
+});
+
+// Suspicious pool signals (see src/risk.ts)
+export const poolRiskSchema = z.object({
+  risk_score: z.number(),
+  risk_reasons: z.array(z.string()),
+});
+
+// Liquidity added to an indexed pool since its initialization (see src/liquidity.ts)
+export const liquiditySchema = z.object({
+  total_liquidity: z.string(),
+  position_count: z.number(),
+  first_liquidity_block: z.number().optional(),
+  first_liquidity_transaction_hash: z.string().optional(),
+  first_liquidity_at: z.number().optional(),
+  time_to_first_liquidity: z.number().optional().describe("Seconds between initialization and the first liquidity"),
+  reserve0: z.string().optional().describe("Raw token0 amount held by the pool"),
+  reserve1: z.string().optional().describe("Raw token1 amount held by the pool"),
+});
+
+// Swap aggregates over one rolling window (see src/swap-activity.ts)
+const swapStatsSchema = z.object({
+  swap_count: z.number(),
+  volume0: z.string().describe("Raw token0 amount swapped"),
+  volume1: z.string().describe("Raw token1 amount swapped"),
+  unique_traders: z.number(),
+});
+
+export const swapActivitySchema = z.object({
+  "1h": swapStatsSchema,
+  "24h": swapStatsSchema,
+  "7d": swapStatsSchema,
+  last_swap_block: z.number().optional(),
+  price_change_percent: z.number().optional().describe("token1/token0 price change since the initial tick"),
+});
+
+// USD values, each omitted when the prices it needs are unknown (see src/prices.ts)
+export const usdValuesSchema = z.object({
+  token0_usd: z.number().optional(),
+  token1_usd: z.number().optional(),
+  initial_token0_usd: z.number().optional().describe("Initial token0 price, valued at token1's current USD price"),
+  initial_token1_usd: z.number().optional().describe("Initial token1 price, valued at token0's current USD price"),
+  liquidity_usd: z.number().optional().describe("Value of the tokens held by the pool"),
+  volume_usd: z.object({
+    "1h": z.number().optional(),
+    "24h": z.number().optional(),
+    "7d": z.number().optional(),
+  }).optional(),
+});
+
+// A pool as returned by the pool list entrypoints
+export const listedPoolSchema = z.object({
+  pool_id: z.string(),
+  pool_key: z.object({
+    token0: z.string(),
+    token1: z.string(),
+    fee: z.string(),
+    tick_spacing: z.number(),
+    extension: z.string(),
+  }),
+  initial_tick: z.number(),
+  sqrt_ratio: z.string(),
+  initial_price: z.object({
+    token1_per_token0: z.number(),
+    token0_per_token1: z.number(),
+  }).optional(),
+  block_number: z.number(),
+  block_hash: z.string(),
+  transaction_hash: z.string(),
+  timestamp: z.number(),
+  finality: z.enum(["pending", "accepted_on_l2", "accepted_on_l1"]),
+  description: z.string().optional(),
+  token0_symbol: z.string().optional(),
+  token1_symbol: z.string().optional(),
+  token0_decimals: z.number().optional(),
+  token1_decimals: z.number().optional(),
+  extension_type: z.enum(EXTENSION_TYPES).optional(),
+  extension_name: z.string().optional(),
+  ...feeTierSchema.shape,
+  ...poolRiskSchema.shape,
+  liquidity: liquiditySchema.optional().describe("Omitted for pools that aren't in the index"),
+  swaps: swapActivitySchema.optional().describe("Omitted for pools that aren't in the index"),
+  usd: usdValuesSchema,
+});
+
+// A pool as returned by top-pools
+export const rankedPoolSchema = listedPoolSchema.extend({
+  rank: z.number(),
+  quote_volume: z.string().optional().describe("Raw quote token volume over the window, when ranking by volume"),
+});
+
+// Apply the shared filter, sort and pagination inputs (plus any entrypoint-specific filter) to a list of pools
+export function queryPools(
+  pools: PoolInitializedEvent[],
+  query: z.infer<typeof poolQuerySchema>,
+  network: Network,
+  extraFilter: PoolFilter = {}
+): PoolPage {
+  const filter: PoolFilter = {
+    ...extraFilter,
+    token0: query.token0,
+    token1: query.token1,
+    minFee: query.min_fee,
+    maxFee: query.max_fee,
+    tickSpacing: query.tick_spacing,
+    extension: query.extension,
+    extensionTypes: query.extension_types,
+    knownTokensOnly: query.known_tokens_only,
+    maxRisk: query.max_risk,
+  };
+  validatePoolFilter(filter);
+
+  const sort: PoolSort = { field: query.sort_by, order: query.sort_order };
+  const matchingPools = sortPools(pools.filter(pool => matchesPoolFilter(pool, filter, network)), sort);
+  return paginatePools(matchingPools, sort, query.limit, query.cursor);
+}
+
+export function toListedPool(
+  pool: PoolInitializedEvent,
+  network: Network,
+  usd: PoolUsdValues,
+  liquidity?: LiquiditySnapshot,
+  swaps?: SwapActivity
+): z.infer<typeof listedPoolSchema> {
+  return {
+    pool_id: pool.pool_id,
+    pool_key: {
+      token0: pool.pool_key.token0,
+      token1: pool.pool_key.token1,
+      fee: pool.pool_key.fee,
+      tick_spacing: pool.pool_key.tick_spacing,
+      extension: pool.pool_key.extension,
+    },
+    initial_tick: pool.initial_tick,
+    sqrt_ratio: pool.sqrt_ratio,
+    initial_price: pool.initial_price,
+    block_number: pool.block_number,
+    block_hash: pool.block_hash,
+    transaction_hash: pool.transaction_hash,
+    timestamp: pool.timestamp,
+    finality: pool.finality,
+    description: pool.description,
+    token0_symbol: pool.token0_symbol,
+    token1_symbol: pool.token1_symbol,
+    token0_decimals: pool.token0_decimals,
+    token1_decimals: pool.token1_decimals,
+    extension_type: pool.extension_type,
+    extension_name: pool.extension_name,
+    ...describeFeeTier(pool.pool_key.fee, pool.pool_key.tick_spacing),
+    ...scorePoolRisk(pool, network),
+    liquidity: liquidity && toLiquidityOutput(liquidity),
+    swaps: swaps && toSwapActivityOutput(swaps),
+    usd,
+  };
+}
+
+export function toLiquidityOutput(liquidity: LiquiditySnapshot): z.infer<typeof liquiditySchema> {
+  return {
+    total_liquidity: liquidity.total_liquidity,
+    position_count: liquidity.position_count,
+    first_liquidity_block: liquidity.first_liquidity_block,
+    first_liquidity_transaction_hash: liquidity.first_liquidity_transaction_hash,
+    first_liquidity_at: liquidity.first_liquidity_at,
+    time_to_first_liquidity: liquidity.time_to_first_liquidity,
+    reserve0: liquidity.reserve0,
+    reserve1: liquidity.reserve1,
+  };
+}
+
+export function toSwapActivityOutput(activity: SwapActivity): z.infer<typeof swapActivitySchema> {
+  return {
+    ...activity.windows,
+    last_swap_block: activity.last_swap_block,
+    price_change_percent: activity.price_change_percent,
+  };
+}
+
+// Listed pools with their liquidity, swap activity and USD values, which take block timestamp and price lookups
+// (at most config.prices.concurrency pools at once)
+export function toListedPools(pools: PoolInitializedEvent[], network: Network): Promise<z.infer<typeof listedPoolSchema>[]> {
+  return mapWithConcurrency(pools, config.prices.concurrency, async pool => {
+    const liquidity = await getLiquiditySnapshot(network, pool);
+    const swaps = await getSwapActivity(network, pool);
+    return toListedPool(pool, network, await getPoolUsdValues(network, pool, liquidity, swaps), liquidity, swaps);
+  });
+}
+
+// Ranked pools (see rankPoolsBySwaps in src/swap-activity.ts) as listed pools with their rank, valued like toListedPools
+export function toRankedPools(ranked: RankedPool[], network: Network): Promise<z.infer<typeof rankedPoolSchema>[]> {
+  const entries = ranked.map((entry, index) => ({ ...entry, rank: index + 1 }));
+  return mapWithConcurrency(entries, config.prices.concurrency, async ({ pool, activity, quote_volume, rank }) => {
+    const liquidity = await getLiquiditySnapshot(network, pool);
+    return {
+      ...toListedPool(pool, network, await getPoolUsdValues(network, pool, liquidity, activity), liquidity, activity),
+      rank,
+      quote_volume,
+    };
+  });
+}
+
+// Get latest pools within specified time window from the background index
+export async function getLatestPools(minutes: number, network: Network = "mainnet", options: PoolQueryOptions = {}): Promise<PoolInitializedEvent[]> {
+  if (minutes < 1 || minutes > config.network.maxLookbackMinutes) {
+    throw new Error(`Minutes must be between 1 and ${config.network.maxLookbackMinutes}`);
+  }
+
+  const cutoffTimeInSeconds = Math.floor(Date.now() / 1000) - (minutes * 60);
+  const indexedPools = getIndexedPools(network, cutoffTimeInSeconds, options);
+
+  // Retry token and extension metadata that couldn't be resolved at index time and keep what we find
+  const pools = await Promise.all(indexedPools.map(async pool => {
+    if (!hasUnresolvedMetadata(pool)) {
+      return pool;
+    }
+
+    const resolved = await resolvePoolMetadata(pool, network);
+    if (!hasUnresolvedMetadata(resolved)) {
+      getStore().updatePool(network, resolved);
+    }
+    return resolved;
+  }));
+
+  const status = getIndexerStatus(network);
+  if (status && !status.backfilled) {
+    logger.warn("Indexer is still backfilling, results may be incomplete", { network, last_indexed_block: status.lastIndexedBlock });
+  }
+
+  logger.debug("Found indexed pools", { network, minutes, count: pools.length });
+
+  return pools;
+}
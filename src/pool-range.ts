@@ -0,0 +1,122 @@
+import { config, Network } from "./config";
+import { findFirstBlockAtOrAfter } from "./block-time";
+import { mapWithConcurrency } from "./event-fetcher";
+import { logger } from "./logger";
+import { recordCacheLookup } from "./metrics";
+import { fetchPoolInitializedEvents, PoolInitializedEvent } from "./pool-events";
+import { getRpcProvider } from "./rpc";
+import { PoolQueryOptions, setBounded } from "./store";
+
+/**
+ * Pools created in an arbitrary block range or time window, read straight
+ * from the chain so any historical window can be queried, not only the one
+ * kept in the local index.
+ *
+ * Results are cached for `config.cache.ttlMs`, so paging through a range
+ * doesn't fetch it again for every page. A chunk of the range that still
+ * fails after the RPC pool's retries is reported back as a failed range
+ * rather than read as a chunk without pools, and incomplete results are not
+ * cached.
+ */
+
+export interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface RangeInput {
+  fromBlock?: number;
+  toBlock?: number;
+  // ISO 8601 timestamps
+  from?: string;
+  to?: string;
+}
+
+export interface RangePools {
+  pools: PoolInitializedEvent[];
+  // Parts of the range that couldn't be read; the pools are complete when this is empty
+  failedRanges: BlockRange[];
+}
+
+const rangeCache = new Map<string, { pools: PoolInitializedEvent[]; expiresAt: number }>();
+
+// Turn block numbers and/or ISO timestamps into a block range, clamped to the chain head
+export async function resolveBlockRange(network: Network, input: RangeInput): Promise<BlockRange> {
+  if (input.fromBlock === undefined && input.from === undefined) {
+    throw new Error("Either from_block or from must be provided");
+  }
+
+  const head = await getRpcProvider(network).getBlockNumber();
+
+  const fromBlock = input.fromBlock ?? await findFirstBlockAtOrAfter(network, parseTimestamp(input.from!), head);
+  // The last block of a time window is the one before the first block after it
+  const toBlock = Math.min(
+    head,
+    input.toBlock ?? (input.to !== undefined ? await findFirstBlockAtOrAfter(network, parseTimestamp(input.to) + 1, head) - 1 : head)
+  );
+
+  if (fromBlock > toBlock) {
+    throw new Error(`Empty range: block ${fromBlock} is after block ${toBlock}`);
+  }
+  if (toBlock - fromBlock + 1 > config.network.maxRangeBlocks) {
+    throw new Error(`Range of ${toBlock - fromBlock + 1} blocks exceeds the maximum of ${config.network.maxRangeBlocks}`);
+  }
+
+  return { fromBlock, toBlock };
+}
+
+// Pools initialized in a block range, oldest first, and the parts of the range that couldn't be read.
+// Throws when no part of the range could be read at all.
+export async function getPoolsInRange(
+  network: Network,
+  range: BlockRange,
+  options: PoolQueryOptions = {}
+): Promise<RangePools> {
+  const cacheKey = `${network}:${range.fromBlock}:${range.toBlock}`;
+  const cached = rangeCache.get(cacheKey);
+  let pools = cached && cached.expiresAt > Date.now() ? cached.pools : undefined;
+  recordCacheLookup("pool_ranges", pools !== undefined);
+  const failedRanges: BlockRange[] = [];
+
+  if (!pools) {
+    const chunks: BlockRange[] = [];
+    for (let fromBlock = range.fromBlock; fromBlock <= range.toBlock; fromBlock += config.network.blockChunkSize) {
+      chunks.push({ fromBlock, toBlock: Math.min(range.toBlock, fromBlock + config.network.blockChunkSize - 1) });
+    }
+
+    let lastError: unknown;
+    const results = await mapWithConcurrency(chunks, config.events.concurrency, chunk =>
+      fetchPoolInitializedEvents(chunk.fromBlock, chunk.toBlock, network).catch((error: unknown) => {
+        lastError = error;
+        failedRanges.push(chunk);
+        return [];
+      })
+    );
+    if (failedRanges.length === chunks.length) {
+      throw lastError;
+    }
+    pools = results.flat();
+    failedRanges.sort((a, b) => a.fromBlock - b.fromBlock);
+
+    if (failedRanges.length === 0) {
+      setBounded(rangeCache, cacheKey, { pools, expiresAt: Date.now() + config.cache.ttlMs });
+    } else {
+      logger.warn("Could not read every chunk of the range, returning partial results", { network, from_block: range.fromBlock, to_block: range.toBlock, failed_chunks: failedRanges.length });
+    }
+
+    logger.debug("Found pools in range", { network, from_block: range.fromBlock, to_block: range.toBlock, count: pools.length });
+  }
+
+  return {
+    pools: options.finalizedOnly ? pools.filter(pool => pool.finality === "accepted_on_l1") : pools,
+    failedRanges,
+  };
+}
+
+function parseTimestamp(iso: string): number {
+  const milliseconds = Date.parse(iso);
+  if (Number.isNaN(milliseconds)) {
+    throw new Error(`Invalid timestamp "${iso}": expected ISO 8601, e.g. 2025-03-03T00:00:00Z`);
+  }
+  return Math.floor(milliseconds / 1000);
+}
@@ -0,0 +1,152 @@
+import { num, RpcProvider } from "starknet";
+import { getNetworkConfig, Network } from "./config";
+import { createFeltReader } from "./cairo-serde";
+import { logger } from "./logger";
+import { getPoolId, PoolInitializedEvent } from "./pool-events";
+import { getRpcProvider } from "./rpc";
+import { getStore } from "./store";
+
+/**
+ * Live on-chain state of a single pool, read from Ekubo Core's view functions
+ * (`get_pool_price`, `get_pool_liquidity`, `get_pool_fees_per_liquidity`).
+ */
+
+export interface PoolKeyInput {
+  token0: string;
+  token1: string;
+  fee: string;
+  tick_spacing: string | number;
+  extension: string;
+}
+
+export interface PoolState {
+  sqrt_ratio: string;
+  tick: number;
+  liquidity: string;
+  fees_per_liquidity: {
+    value0: string;
+    value1: string;
+  };
+  block_number: number;
+}
+
+export interface LivePoolPrice {
+  // 0 for pools that were never initialized
+  sqrt_ratio: string;
+  liquidity: string;
+}
+
+export interface PoolDetails {
+  pool_id: string;
+  pool_key: PoolInitializedEvent["pool_key"];
+  state: PoolState;
+  // Creation metadata, when the pool has been indexed
+  created?: PoolInitializedEvent;
+}
+
+// Read the current price, liquidity and fee growth of a pool from Ekubo Core
+export async function fetchPoolState(poolKey: PoolInitializedEvent["pool_key"], network: Network = "mainnet"): Promise<PoolState> {
+  const provider = getRpcProvider(network);
+  const contractAddress = getNetworkConfig(network).coreAddress;
+  const calldata = [
+    poolKey.token0,
+    poolKey.token1,
+    poolKey.fee,
+    poolKey.tick_spacing.toString(),
+    poolKey.extension,
+  ];
+
+  // Pin all reads to the same block so the values are consistent with each other
+  const blockNumber = await provider.getBlockNumber();
+  const call = (entrypoint: string) =>
+    provider.callContract({ contractAddress, entrypoint, calldata }, blockNumber);
+
+  const [priceResult, liquidityResult, feesResult] = await Promise.all([
+    call("get_pool_price"),
+    call("get_pool_liquidity"),
+    call("get_pool_fees_per_liquidity"),
+  ]);
+
+  // PoolPrice { sqrt_ratio: u256, tick: i129 }; any trailing fields are ignored
+  const price = createFeltReader(priceResult);
+  const sqrtRatio = price.u256();
+  const tick = price.tick();
+
+  // FeesPerLiquidity { value0: felt252, value1: felt252 }
+  const fees = createFeltReader(feesResult);
+
+  return {
+    sqrt_ratio: sqrtRatio,
+    tick,
+    liquidity: createFeltReader(liquidityResult).u128(),
+    fees_per_liquidity: {
+      value0: BigInt(fees.felt()).toString(),
+      value1: BigInt(fees.felt()).toString(),
+    },
+    block_number: blockNumber,
+  };
+}
+
+// Read just the current price and active liquidity of a pool, e.g. of one that isn't indexed.
+// The provider is injectable so it can be mocked.
+export async function fetchPoolPrice(
+  poolKey: PoolInitializedEvent["pool_key"],
+  network: Network = "mainnet",
+  provider: RpcProvider = getRpcProvider(network)
+): Promise<LivePoolPrice> {
+  const contractAddress = getNetworkConfig(network).coreAddress;
+  const calldata = [poolKey.token0, poolKey.token1, poolKey.fee, poolKey.tick_spacing.toString(), poolKey.extension];
+
+  const [priceResult, liquidityResult] = await Promise.all([
+    provider.callContract({ contractAddress, entrypoint: "get_pool_price", calldata }),
+    provider.callContract({ contractAddress, entrypoint: "get_pool_liquidity", calldata }),
+  ]);
+
+  return {
+    sqrt_ratio: createFeltReader(priceResult).u256(),
+    liquidity: createFeltReader(liquidityResult).u128(),
+  };
+}
+
+// Resolve a pool from its key or id and combine live state with indexed creation metadata
+export async function getPoolDetails(
+  network: Network,
+  lookup: { poolId?: string; poolKey?: PoolKeyInput }
+): Promise<PoolDetails> {
+  let poolId: string;
+  let poolKey: PoolInitializedEvent["pool_key"] | undefined;
+
+  if (lookup.poolKey) {
+    poolKey = {
+      token0: lookup.poolKey.token0,
+      token1: lookup.poolKey.token1,
+      fee: BigInt(lookup.poolKey.fee).toString(),
+      tick_spacing: Number(lookup.poolKey.tick_spacing),
+      extension: lookup.poolKey.extension,
+    };
+    poolId = getPoolId(poolKey);
+  } else if (lookup.poolId) {
+    // Normalize padding and case so ids match the ones we computed
+    poolId = num.toHex(lookup.poolId);
+  } else {
+    throw new Error("Either pool_id or pool_key must be provided");
+  }
+
+  const created = getStore().getPool(network, poolId);
+  poolKey = poolKey ?? created?.pool_key;
+
+  if (!poolKey) {
+    throw new Error(`Pool ${poolId} is not indexed on ${network}; look it up by pool_key instead`);
+  }
+
+  const state = await fetchPoolState(poolKey, network);
+
+  logger.debug("Fetched pool state", { network, pool_id: poolId, block: state.block_number });
+
+  return {
+    pool_id: poolId,
+    pool_key: poolKey,
+    state,
+    created,
+  };
+}
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { config } from "./config";
+import type { PoolInitializedEvent } from "./pool-events";
+import { handlePoolStream } from "./pool-stream";
+import { getStore } from "./store";
+
+const FIRST_BLOCK = 5000001;
+
+let server: ReturnType<typeof Bun.serve>;
+
+function makePool(poolId: string, blockNumber: number): PoolInitializedEvent {
+  return {
+    pool_id: poolId,
+    pool_key: {
+      token0: "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+      token1: "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+      fee: "170141183460469235273462165868118016",
+      tick_spacing: 1000,
+      extension: "0x0",
+    },
+    initial_tick: 0,
+    sqrt_ratio: (2n ** 128n).toString(),
+    block_number: blockNumber,
+    block_hash: `0xb${blockNumber}`,
+    transaction_hash: `0xt${poolId}`,
+    // Long before the pools of the other tests, so no time window includes these
+    timestamp: 1700000000,
+    finality: "accepted_on_l2",
+  };
+}
+
+const pools = [makePool("0x51", FIRST_BLOCK), makePool("0x52", FIRST_BLOCK + 1), makePool("0x53", FIRST_BLOCK + 2)];
+
+const eventId = (pool: PoolInitializedEvent) => `${pool.block_number}:${pool.transaction_hash}:${pool.pool_id}`;
+
+beforeAll(() => {
+  getStore().recordIndexedChunk("mainnet", { pools, events: [] }, { blockNumber: FIRST_BLOCK + 2, blockHash: `0xb${FIRST_BLOCK + 2}` });
+  server = Bun.serve({ port: 0, fetch: (request, server) => handlePoolStream(request, server) });
+});
+
+afterAll(() => {
+  server.stop(true);
+  config.stream.maxReplayPools = 1000;
+  config.stream.heartbeatIntervalMs = 15000;
+});
+
+// Read the stream until the text received so far satisfies `done` or the stream ends, then close it
+async function readStream(lastEventId: string | undefined, done: (text: string) => boolean): Promise<{ text: string; ended: boolean }> {
+  const response = await fetch(`http://localhost:${server.port}/stream/pools`, {
+    headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+  });
+  expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (!done(text)) {
+    const { value, done: ended } = await reader.read();
+    if (ended) {
+      return { text, ended: true };
+    }
+    text += decoder.decode(value);
+  }
+  await reader.cancel();
+  return { text, ended: false };
+}
+
+function parseEvents(text: string): { id?: string; event?: string; data?: string }[] {
+  return text.split("\n\n").filter(block => block.startsWith("id:")).map(block =>
+    Object.fromEntries(block.split("\n").map(line => [line.slice(0, line.indexOf(":")), line.slice(line.indexOf(":") + 2)]))
+  );
+}
+
+test("replays the pools indexed after Last-Event-ID", async () => {
+  const { text, ended } = await readStream(eventId(pools[0]), text => text.includes(`"pool_id":"${pools[2].pool_id}"`));
+
+  expect(ended).toBe(false);
+  const events = parseEvents(text);
+  expect(events.map(event => event.id)).toEqual([eventId(pools[1]), eventId(pools[2])]);
+  expect(events.every(event => event.event === "pool")).toBe(true);
+  expect(JSON.parse(events[0].data!)).toMatchObject({ pool_id: pools[1].pool_id, risk_score: 0 });
+});
+
+test("closes the stream after a truncated replay so the client resumes from the last pool read", async () => {
+  config.stream.maxReplayPools = 1;
+  try {
+    const { text, ended } = await readStream(`${FIRST_BLOCK}`, () => false);
+
+    expect(ended).toBe(true);
+    const events = parseEvents(text);
+    expect(events.map(event => [event.event, event.id])).toEqual([
+      ["pool", eventId(pools[0])],
+      ["replay_truncated", eventId(pools[0])],
+    ]);
+
+    // The next connection replays the next pool, and is cut off after it again
+    const resumed = await readStream(events[1].id, () => false);
+    expect(parseEvents(resumed.text).map(event => event.id)).toEqual([eventId(pools[1]), eventId(pools[1])]);
+  } finally {
+    config.stream.maxReplayPools = 1000;
+  }
+});
+
+test("sends heartbeats while idle", async () => {
+  config.stream.heartbeatIntervalMs = 20;
+  try {
+    const { text } = await readStream(undefined, text => text.includes(": heartbeat\n\n"));
+
+    expect(text.startsWith("retry: 5000\n\n")).toBe(true);
+    expect(parseEvents(text)).toHaveLength(0);
+  } finally {
+    config.stream.heartbeatIntervalMs = 15000;
+  }
+});
+
+test("rejects invalid Last-Event-IDs and networks that aren't indexed", async () => {
+  const invalidId = await fetch(`http://localhost:${server.port}/stream/pools`, { headers: { "Last-Event-ID": "latest" } });
+  expect(invalidId.status).toBe(400);
+
+  const notIndexed = await fetch(`http://localhost:${server.port}/stream/pools?network=testnet`);
+  expect(notIndexed.status).toBe(400);
+  expect(await notIndexed.text()).toContain("not indexed");
+});
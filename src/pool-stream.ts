@@ -0,0 +1,169 @@
+import type { Server } from "bun";
+import { config, Network } from "./config";
+import type { ExtensionType } from "./extensions";
+import { onPoolsIndexed } from "./indexer";
+import { logger } from "./logger";
+import type { PoolInitializedEvent } from "./pool-events";
+import { matchesPoolFilter, PoolFilter, validatePoolFilter } from "./pool-filters";
+import { scorePoolRisk } from "./risk";
+import { getStore } from "./store";
+
+/**
+ * Server-Sent Events stream of newly indexed pools at `GET /stream/pools`.
+ *
+ * Query parameters mirror the list-latest-pools filters: `network`,
+ * `token0`, `token1`, `min_fee`, `max_fee`, `tick_spacing`, `extension`,
+ * `known_tokens_only`, `max_risk`, plus comma-separated `tokens`, `fees` and
+ * `extension_types`. Every pool is sent, with its risk score, as a `pool` event
+ * whose id is `<block_number>:<transaction_hash>:<pool_id>`. Clients that
+ * reconnect with a `Last-Event-ID` header (or `last_event_id` query
+ * parameter) first receive the indexed pools they missed, then live ones.
+ * At most `config.stream.maxReplayPools` are replayed; with more, the
+ * stream sends a `replay_truncated` event and closes, so the client
+ * reconnects from there.
+ *
+ * Unlike the agent entrypoints, the stream isn't behind x402 payments.
+ */
+
+interface StreamCursor {
+  blockNumber: number;
+  transactionHash: string;
+  poolId: string;
+}
+
+// Handle a /stream/pools request
+export function handlePoolStream(request: Request, server: Server<undefined>): Response {
+  const params = new URL(request.url).searchParams;
+  const network = (params.get("network") || config.indexer.networks[0]) as Network;
+  const filter: PoolFilter = {
+    tokens: parseList(params.get("tokens")),
+    token0: params.get("token0") || undefined,
+    token1: params.get("token1") || undefined,
+    fees: parseList(params.get("fees")),
+    minFee: params.get("min_fee") || undefined,
+    maxFee: params.get("max_fee") || undefined,
+    tickSpacing: params.has("tick_spacing") ? Number(params.get("tick_spacing")) : undefined,
+    extension: params.get("extension") || undefined,
+    extensionTypes: parseList(params.get("extension_types")) as ExtensionType[] | undefined,
+    knownTokensOnly: params.get("known_tokens_only") === "true",
+    maxRisk: params.has("max_risk") ? Number(params.get("max_risk")) : undefined,
+  };
+
+  let cursor: StreamCursor | undefined;
+  try {
+    if (!config.indexer.networks.includes(network)) {
+      throw new Error(`Network ${network} is not indexed (add it to INDEXER_NETWORKS)`);
+    }
+    validatePoolFilter(filter);
+    cursor = parseEventId(request.headers.get("Last-Event-ID") ?? params.get("last_event_id"));
+  } catch (error) {
+    return new Response(error instanceof Error ? error.message : String(error), { status: 400 });
+  }
+
+  // The stream is long-lived; the heartbeat keeps it alive instead of the server's idle timeout
+  server.timeout(request, 0);
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (pool: PoolInitializedEvent) => {
+        const next = toCursor(pool);
+        // Pools re-ingested after a reorg or already replayed are not sent twice
+        if (cursor && compareCursors(next, cursor) <= 0) {
+          return;
+        }
+        cursor = next;
+
+        if (matchesPoolFilter(pool, filter, network)) {
+          controller.enqueue(encoder.encode(`id: ${formatEventId(next)}\nevent: pool\ndata: ${JSON.stringify({ ...pool, ...scorePoolRisk(pool, network) })}\n\n`));
+        }
+      };
+
+      controller.enqueue(encoder.encode("retry: 5000\n\n"));
+
+      // Subscribing and replaying in the same synchronous step means no pool can slip in between
+      const unsubscribe = onPoolsIndexed((poolNetwork, pools) => {
+        if (poolNetwork === network) {
+          [...pools].sort((a, b) => compareCursors(toCursor(a), toCursor(b))).forEach(send);
+        }
+      });
+      if (cursor) {
+        const missed = getStore().getPoolsAfter(network, cursor, config.stream.maxReplayPools + 1);
+        missed.slice(0, config.stream.maxReplayPools).forEach(send);
+
+        if (missed.length > config.stream.maxReplayPools) {
+          // The id moves the client's Last-Event-ID past pools the filter skipped, so it resumes after them
+          const eventId = formatEventId(cursor);
+          controller.enqueue(encoder.encode(`id: ${eventId}\nevent: replay_truncated\ndata: ${JSON.stringify({ last_event_id: eventId })}\n\n`));
+          unsubscribe();
+          controller.close();
+
+          logger.debug("Pool stream replay truncated", { network, last_event_id: eventId });
+          return;
+        }
+      }
+
+      // Comment lines sent while idle so proxies and the server don't drop the connection
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": heartbeat\n\n")), config.stream.heartbeatIntervalMs);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      logger.debug("Pool stream opened", { network, last_event_id: cursor ? formatEventId(cursor) : undefined });
+    },
+    cancel() {
+      cleanup();
+
+      logger.debug("Pool stream closed", { network });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value?.split(",").map(item => item.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+function toCursor(pool: PoolInitializedEvent): StreamCursor {
+  return { blockNumber: pool.block_number, transactionHash: pool.transaction_hash, poolId: pool.pool_id };
+}
+
+function formatEventId(cursor: StreamCursor): string {
+  return `${cursor.blockNumber}:${cursor.transactionHash}:${cursor.poolId}`;
+}
+
+function parseEventId(eventId: string | null): StreamCursor | undefined {
+  if (!eventId) {
+    return undefined;
+  }
+
+  const [blockNumber, transactionHash = "", poolId = ""] = eventId.split(":");
+  if (!/^\d+$/.test(blockNumber)) {
+    throw new Error(`Invalid Last-Event-ID "${eventId}": expected <block_number>:<transaction_hash>:<pool_id>`);
+  }
+
+  return { blockNumber: Number(blockNumber), transactionHash, poolId };
+}
+
+// Same order as getPoolsAfter: block number, then transaction hash, then pool id
+function compareCursors(a: StreamCursor, b: StreamCursor): number {
+  if (a.blockNumber !== b.blockNumber) {
+    return a.blockNumber - b.blockNumber;
+  }
+  if (a.transactionHash !== b.transactionHash) {
+    return a.transactionHash < b.transactionHash ? -1 : 1;
+  }
+  return a.poolId === b.poolId ? 0 : a.poolId < b.poolId ? -1 : 1;
+}
@@ -0,0 +1,116 @@
+import { afterAll, expect, test } from "bun:test";
+import type { Call, RpcProvider } from "starknet";
+import { getStandardTierKeys } from "./fees";
+import type { PoolInitializedEvent } from "./pool-events";
+import { createPoolPriceSource, createPragmaPriceSource, getPoolUsdValues, setPriceSources } from "./prices";
+import { findTokensBySymbol, normalizeAddress, TokenMetadata } from "./token-registry";
+
+const TWO_POW_128 = 2n ** 128n;
+
+function getVerifiedToken(symbol: string): TokenMetadata {
+  return findTokensBySymbol(symbol, "mainnet").find(token => token.verified)!;
+}
+
+// Provider answering callContract from a handler, recording every call
+function mockProvider(handler: (call: Call) => string[]): { provider: RpcProvider; calls: Call[] } {
+  const calls: Call[] = [];
+  const provider = {
+    async callContract(call: Call) {
+      calls.push(call);
+      return handler(call);
+    },
+  } as unknown as RpcProvider;
+  return { provider, calls };
+}
+
+// sqrt_ratio of a pool whose token0 is worth `price` of token1, in whole tokens
+function toSqrtRatio(price: number, decimals0: number, decimals1: number): bigint {
+  return BigInt(Math.round(Math.sqrt(price * 10 ** (decimals1 - decimals0)) * 2 ** 64)) * 2n ** 64n;
+}
+
+afterAll(() => {
+  setPriceSources();
+});
+
+test("pragma source reads fresh median prices of verified tokens", async () => {
+  const eth = getVerifiedToken("ETH");
+  let lastUpdated = Math.floor(Date.now() / 1000);
+  const { provider, calls } = mockProvider(() => ["0x4b8e4da380", "0x8", `0x${lastUpdated.toString(16)}`, "0x5", "0x0"]);
+  const source = createPragmaPriceSource(() => provider);
+
+  expect(await source.getUsdPrice("mainnet", eth)).toBeCloseTo(3245.1, 6);
+  expect(calls[0].entrypoint).toBe("get_data_median");
+
+  // Stale prices are ignored
+  lastUpdated = 0;
+  expect(await source.getUsdPrice("mainnet", eth)).toBeUndefined();
+
+  // Pairs are keyed by symbol, so unverified tokens are never looked up
+  const lookalike: TokenMetadata = { ...eth, address: normalizeAddress("0x1234"), verified: false };
+  expect(await source.getUsdPrice("mainnet", lookalike)).toBeUndefined();
+  expect(calls).toHaveLength(2);
+});
+
+test("pools source reads the deepest standard-tier pool on demand when none is indexed", async () => {
+  const strk = getVerifiedToken("STRK");
+  const usdc = getVerifiedToken("USDC");
+  const [, lowFee, midFee] = getStandardTierKeys();
+
+  // STRK sorts before USDC, so it is token0 and its price is in USDC per STRK
+  const pools = new Map([
+    [lowFee.fee, { sqrtRatio: toSqrtRatio(0.5, 18, 6), liquidity: 10n ** 15n }],
+    [midFee.fee, { sqrtRatio: toSqrtRatio(0.6, 18, 6), liquidity: 10n ** 12n }],
+  ]);
+  const { provider, calls } = mockProvider(call => {
+    const [token0, token1, fee] = call.calldata as string[];
+    const pool = BigInt(token0) === BigInt(strk.address) && BigInt(token1) === BigInt(usdc.address) ? pools.get(fee) : undefined;
+    if (call.entrypoint === "get_pool_price") {
+      // PoolPrice { sqrt_ratio: u256, tick: i129 }; uninitialized pools are all zeros
+      const sqrtRatio = pool?.sqrtRatio ?? 0n;
+      return [`0x${(sqrtRatio % TWO_POW_128).toString(16)}`, `0x${(sqrtRatio / TWO_POW_128).toString(16)}`, "0x0", "0x0"];
+    }
+    return [`0x${(pool?.liquidity ?? 0n).toString(16)}`];
+  });
+  const source = createPoolPriceSource(undefined, () => provider);
+
+  expect(await source.getUsdPrice("mainnet", strk)).toBeCloseTo(0.5, 6);
+  expect(calls.every(call => call.entrypoint === "get_pool_price" || call.entrypoint === "get_pool_liquidity")).toBe(true);
+
+  // Tokens without known decimals can't be priced from a sqrt_ratio
+  calls.length = 0;
+  expect(await source.getUsdPrice("mainnet", { ...strk, decimals: undefined })).toBeUndefined();
+  expect(calls).toHaveLength(0);
+});
+
+test("volumes use the registry's decimals when the pool has none", async () => {
+  const usdc = getVerifiedToken("USDC");
+  setPriceSources([{ name: "fixed", getUsdPrice: async (_network, token) => token.symbol === "USDC" ? 1 : undefined }]);
+
+  const pool: PoolInitializedEvent = {
+    pool_id: "0x1",
+    pool_key: { token0: usdc.address, token1: "0xabc", fee: "0", tick_spacing: 1000, extension: "0x0" },
+    initial_tick: 0,
+    sqrt_ratio: TWO_POW_128.toString(),
+    block_number: 1000,
+    block_hash: "0xb1",
+    transaction_hash: "0xt1",
+    timestamp: 1,
+    finality: "accepted_on_l2",
+  };
+  const stats = { swap_count: 2, volume0: "2500000", volume1: "7", unique_traders: 1 };
+
+  const values = await getPoolUsdValues("mainnet", pool, {
+    pool_id: pool.pool_id,
+    total_liquidity: "1000",
+    position_count: 1,
+    reserve0: "1000000",
+    reserve1: "5",
+  }, {
+    windows: { "1h": stats, "24h": stats, "7d": { ...stats, volume0: "0" } },
+  });
+
+  expect(values.token0_usd).toBe(1);
+  expect(values.volume_usd).toEqual({ "1h": 2.5, "24h": 2.5, "7d": 0 });
+  // token1 has reserves but no price, so the pool isn't valued
+  expect(values.liquidity_usd).toBeUndefined();
+});
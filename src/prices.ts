@@ -0,0 +1,297 @@
+import { RpcProvider, shortString } from "starknet";
+import { config, getNetworkConfig, Network } from "./config";
+import { getStandardTierKeys } from "./fees";
+import type { LiquiditySnapshot } from "./liquidity";
+import { logger } from "./logger";
+import { recordCacheLookup } from "./metrics";
+import type { PoolInitializedEvent } from "./pool-events";
+import { fetchPoolPrice } from "./pool-state";
+import { sqrtRatioToPrice } from "./pricing";
+import { getRpcProvider } from "./rpc";
+import { getStore, setBounded } from "./store";
+import type { SwapActivity, SwapWindow } from "./swap-activity";
+import { findTokensBySymbol, getToken, isVerifiedToken, normalizeAddress, TokenMetadata } from "./token-registry";
+
+/**
+ * USD prices of tokens, and the USD value of a pool's initial price,
+ * liquidity and swap volume.
+ *
+ * Prices come from a chain of price sources, tried in the order of
+ * PRICE_SOURCES until one has a price:
+ *
+ *   - pragma: the Pragma oracle's median `<SYMBOL>/USD` spot price, for
+ *     verified tokens only, since Pragma pairs are keyed by symbol
+ *   - pools: the current price of the deepest indexed Ekubo pool pairing the
+ *     token with verified USDC, USDT or ETH, valued at the quote token's own
+ *     USD price (from the sources before it, else USDC/USDT at $1 and ETH
+ *     through its own stablecoin pools). When none of those pools is indexed,
+ *     the pair's pools in Ekubo's standard fee tiers are read on demand with
+ *     `get_pool_price`, so reference pairs like ETH/USDC are priced even when
+ *     they were created before indexing started.
+ *
+ * Prices are cached for PRICE_CACHE_TTL_MS, including the absence of one.
+ * Sources are plain objects, so tests and other deployments can swap them
+ * with setPriceSources (e.g. a Pragma source over a mocked provider).
+ */
+
+export interface PriceSource {
+  name: string;
+  // USD price of one whole token, or undefined if the source has none
+  getUsdPrice(network: Network, token: TokenMetadata): Promise<number | undefined>;
+}
+
+export interface PoolUsdValues {
+  token0_usd?: number;
+  token1_usd?: number;
+  // The pool's initial price of each token, valued at the current USD price of the other token
+  initial_token0_usd?: number;
+  initial_token1_usd?: number;
+  // Value of the tokens held by the pool
+  liquidity_usd?: number;
+  volume_usd?: Partial<Record<SwapWindow, number>>;
+}
+
+// Quote tokens pools are priced against, by symbol in the verified token list
+const QUOTE_SYMBOLS = ["USDC", "USDT", "ETH"];
+const STABLECOIN_SYMBOLS = ["USDC", "USDT"];
+
+// Pragma's get_data_median takes a DataType enum; variant 0 is a spot entry for a pair id
+const PRAGMA_SPOT_ENTRY = "0";
+
+let priceSources: PriceSource[] | undefined;
+const priceCache = new Map<string, { price?: number; expiresAt: number }>();
+
+// USD price of one whole token, from the first price source that has one
+export async function getUsdPrice(network: Network, address: string): Promise<number | undefined> {
+  const cacheKey = `${network}:${normalizeAddress(address)}`;
+  const cached = priceCache.get(cacheKey);
+  recordCacheLookup("prices", Boolean(cached && cached.expiresAt > Date.now()));
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.price;
+  }
+
+  const token = await getToken(address, network);
+  const price = token && await findPrice(getPriceSources(), network, token);
+  setBounded(priceCache, cacheKey, { price, expiresAt: Date.now() + config.prices.cacheTtlMs });
+
+  return price;
+}
+
+// USD values of a pool's tokens, initial price, liquidity and volume, as far as prices are known
+export async function getPoolUsdValues(
+  network: Network,
+  pool: PoolInitializedEvent,
+  liquidity?: LiquiditySnapshot,
+  swaps?: SwapActivity
+): Promise<PoolUsdValues> {
+  const token0Usd = await getUsdPrice(network, pool.pool_key.token0);
+  const token1Usd = await getUsdPrice(network, pool.pool_key.token1);
+  const values: PoolUsdValues = { token0_usd: token0Usd, token1_usd: token1Usd };
+  // Pools indexed before their tokens' metadata was read carry no decimals, so fall back to the registry
+  const decimals0 = pool.token0_decimals ?? (await getToken(pool.pool_key.token0, network))?.decimals;
+  const decimals1 = pool.token1_decimals ?? (await getToken(pool.pool_key.token1, network))?.decimals;
+
+  if (pool.initial_price) {
+    values.initial_token0_usd = token1Usd === undefined ? undefined : pool.initial_price.token1_per_token0 * token1Usd;
+    values.initial_token1_usd = token0Usd === undefined ? undefined : pool.initial_price.token0_per_token1 * token0Usd;
+  }
+
+  if (liquidity?.reserve0 !== undefined && liquidity.reserve1 !== undefined) {
+    const value0 = toUsd(liquidity.reserve0, decimals0, token0Usd);
+    const value1 = toUsd(liquidity.reserve1, decimals1, token1Usd);
+    // A side with tokens but no price would undervalue the pool, so report nothing instead
+    values.liquidity_usd = value0 === undefined || value1 === undefined ? undefined : value0 + value1;
+  }
+
+  if (swaps) {
+    // Both legs of a swap are worth the same, so volume is valued on whichever side has a price and decimals
+    const side0 = token0Usd !== undefined && decimals0 !== undefined;
+    values.volume_usd = Object.fromEntries(Object.entries(swaps.windows).map(([window, stats]) => [
+      window,
+      side0 ? toUsd(stats.volume0, decimals0, token0Usd) : toUsd(stats.volume1, decimals1, token1Usd),
+    ]));
+  }
+
+  return values;
+}
+
+// Replace the configured price sources, e.g. with mocked ones; without sources, go back to PRICE_SOURCES
+export function setPriceSources(sources?: PriceSource[]): void {
+  priceSources = sources;
+  priceCache.clear();
+}
+
+// Median spot price from the Pragma oracle. The provider is injectable so it can be mocked.
+export function createPragmaPriceSource(getProvider: (network: Network) => RpcProvider = getRpcProvider): PriceSource {
+  return {
+    name: "pragma",
+    async getUsdPrice(network, token) {
+      const oracle = getNetworkConfig(network).pragmaOracle;
+      if (!oracle || !token.symbol || !isVerifiedToken(token.address, network)) {
+        return undefined;
+      }
+
+      const pair = `${token.symbol.toUpperCase()}/USD`;
+      try {
+        // PragmaPricesResponse: price, decimals, last_updated_timestamp, num_sources_aggregated, expiration_timestamp
+        const [price, decimals, lastUpdated] = await getProvider(network).callContract({
+          contractAddress: oracle,
+          entrypoint: "get_data_median",
+          calldata: [PRAGMA_SPOT_ENTRY, shortString.encodeShortString(pair)],
+        });
+
+        const ageSeconds = Date.now() / 1000 - Number(BigInt(lastUpdated));
+        if (BigInt(price) === 0n || ageSeconds > config.prices.maxAgeSeconds) {
+          return undefined;
+        }
+        return Number(BigInt(price)) / Math.pow(10, Number(BigInt(decimals)));
+      } catch (error) {
+        logger.debug("Pragma has no price", { network, pair, error });
+        return undefined;
+      }
+    },
+  };
+}
+
+// Price derived from the deepest indexed pool against a quote token, else from the deepest
+// standard-tier pool read on chain. Quote tokens are valued with referencePrice first (e.g. an
+// oracle), so a thin pool can't set the price of ETH. The provider is injectable so it can be mocked.
+export function createPoolPriceSource(
+  referencePrice: (network: Network, token: TokenMetadata) => Promise<number | undefined> = async () => undefined,
+  getProvider: (network: Network) => RpcProvider = getRpcProvider
+): PriceSource {
+  const getQuoteUsdPrice = async (network: Network, quote: TokenMetadata): Promise<number | undefined> => {
+    const reference = await referencePrice(network, quote);
+    if (reference !== undefined) {
+      return reference;
+    }
+    if (STABLECOIN_SYMBOLS.includes(quote.symbol!.toUpperCase())) {
+      return 1;
+    }
+    return priceAgainst(network, quote, STABLECOIN_SYMBOLS);
+  };
+
+  const priceAgainst = async (network: Network, token: TokenMetadata, quoteSymbols: string[]): Promise<number | undefined> => {
+    const quotes = quoteSymbols
+      .flatMap(symbol => findTokensBySymbol(symbol, network))
+      .filter(quote => quote.verified && quote.decimals !== undefined && BigInt(quote.address) !== BigInt(token.address));
+    let best: PoolQuote | undefined;
+
+    for (const quote of quotes) {
+      const pools = getStore().getPoolsByTokens(network, token.address, quote.address);
+      const quoteUsd = pools.length > 0 ? await getQuoteUsdPrice(network, quote) : undefined;
+      if (quoteUsd === undefined) {
+        continue;
+      }
+
+      for (const pool of pools) {
+        const quoteSide = BigInt(pool.pool_key.token0) === BigInt(quote.address) ? 0 : 1;
+        const reserves = getStore().getPoolReserves(network, pool.pool_id);
+        best = deeperQuote(best, quote, quoteUsd, getPoolPrice(network, pool, quoteSide), reserves && BigInt(quoteSide === 0 ? reserves.reserve0 : reserves.reserve1));
+      }
+    }
+    if (best || token.decimals === undefined) {
+      return best?.price;
+    }
+
+    for (const quote of quotes) {
+      const quoteUsd = await getQuoteUsdPrice(network, quote);
+      if (quoteUsd === undefined) {
+        continue;
+      }
+
+      const quoteSide = BigInt(quote.address) < BigInt(token.address) ? 0 : 1;
+      const [token0, token1] = quoteSide === 0 ? [quote, token] : [token, quote];
+      for (const tier of getStandardTierKeys()) {
+        const poolKey = { token0: token0.address, token1: token1.address, ...tier, extension: "0x0" };
+        try {
+          const { sqrt_ratio, liquidity } = await fetchPoolPrice(poolKey, network, getProvider(network));
+          const sqrtRatio = BigInt(sqrt_ratio);
+          const price = sqrtRatioToPrice(sqrtRatio, token0.decimals!, token1.decimals!);
+          // Active liquidity L holds L / sqrt(P) of token0 and L * sqrt(P) of token1 at the current price
+          const quoteReserve = sqrtRatio === 0n ? undefined
+            : quoteSide === 0 ? (BigInt(liquidity) << 128n) / sqrtRatio : (BigInt(liquidity) * sqrtRatio) >> 128n;
+          best = deeperQuote(best, quote, quoteUsd, quoteSide === 1 ? price?.token1_per_token0 : price?.token0_per_token1, quoteReserve);
+        } catch (error) {
+          logger.debug("Could not read pool price", { network, pool_key: poolKey, error });
+        }
+      }
+    }
+
+    return best?.price;
+  };
+
+  return {
+    name: "pools",
+    getUsdPrice: (network, token) => priceAgainst(network, token, QUOTE_SYMBOLS.filter(symbol => symbol !== token.symbol?.toUpperCase())),
+  };
+}
+
+// Sources from PRICE_SOURCES, built on first use. The pool source values quote tokens with the sources before it.
+function getPriceSources(): PriceSource[] {
+  if (!priceSources) {
+    const sources: PriceSource[] = [];
+    for (const name of config.prices.sources) {
+      const previous = [...sources];
+      sources.push(name === "pragma"
+        ? createPragmaPriceSource()
+        : createPoolPriceSource((network, token) => findPrice(previous, network, token)));
+    }
+    priceSources = sources;
+  }
+  return priceSources;
+}
+
+async function findPrice(sources: PriceSource[], network: Network, token: TokenMetadata): Promise<number | undefined> {
+  for (const source of sources) {
+    const price = await source.getUsdPrice(network, token);
+    if (price !== undefined && Number.isFinite(price) && price > 0) {
+      logger.debug("Found USD price", { network, token: token.symbol ?? token.address, price, source: source.name });
+      return price;
+    }
+  }
+  return undefined;
+}
+
+// USD price of a token from a pool, and the USD value of the quote token the pool holds
+interface PoolQuote {
+  price: number;
+  depth: number;
+}
+
+// The deeper of the best quote so far and a pool's. Empty pools quote whatever price they were
+// initialized at, so only pools holding the quote token count.
+function deeperQuote(
+  best: PoolQuote | undefined,
+  quote: TokenMetadata,
+  quoteUsd: number,
+  price: number | undefined,
+  quoteReserve: bigint | undefined
+): PoolQuote | undefined {
+  if (price === undefined || !quoteReserve || quoteReserve <= 0n) {
+    return best;
+  }
+  const depth = Number(quoteReserve) / Math.pow(10, quote.decimals!) * quoteUsd;
+  return !best || depth > best.depth ? { price: price * quoteUsd, depth } : best;
+}
+
+// Current price of the non-quote token in units of the quote token: after the last swap, else the initial price
+function getPoolPrice(network: Network, pool: PoolInitializedEvent, quoteSide: 0 | 1): number | undefined {
+  if (pool.token0_decimals === undefined || pool.token1_decimals === undefined) {
+    return undefined;
+  }
+
+  const sqrtRatio = getStore().getSwapState(network, pool.pool_id)?.last_sqrt_ratio ?? pool.sqrt_ratio;
+  const price = sqrtRatioToPrice(sqrtRatio, pool.token0_decimals, pool.token1_decimals);
+  return quoteSide === 1 ? price?.token1_per_token0 : price?.token0_per_token1;
+}
+
+function toUsd(amount: string, decimals: number | undefined, usdPrice: number | undefined): number | undefined {
+  if (BigInt(amount) === 0n) {
+    return 0;
+  }
+  if (decimals === undefined || usdPrice === undefined) {
+    return undefined;
+  }
+  return Number(BigInt(amount)) / Math.pow(10, decimals) * usdPrice;
+}
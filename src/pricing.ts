@@ -0,0 +1,50 @@
+/**
+ * Price helpers for Ekubo pools.
+ *
+ * Ekubo stores the square root of the price as a 128.128 fixed-point u256,
+ * i.e. sqrt_ratio = sqrt(token1 / token0) * 2^128 in raw token units. Ticks
+ * are powers of 1.000001, so price = 1.000001^tick.
+ */
+
+const TWO_POW_128 = 2 ** 128;
+const TICK_BASE = 1.000001;
+
+export interface PoolPrice {
+  token1_per_token0: number;
+  token0_per_token1: number;
+}
+
+// Decimal-adjusted price from a 128.128 fixed-point sqrt ratio
+export function sqrtRatioToPrice(sqrtRatio: bigint | string, decimals0: number, decimals1: number): PoolPrice | undefined {
+  const sqrtPrice = Number(BigInt(sqrtRatio)) / TWO_POW_128;
+  if (sqrtPrice === 0 || !Number.isFinite(sqrtPrice)) {
+    return undefined;
+  }
+
+  return adjustForDecimals(sqrtPrice * sqrtPrice, decimals0, decimals1);
+}
+
+// Decimal-adjusted price from a tick
+export function tickToPrice(tick: number, decimals0: number, decimals1: number): PoolPrice | undefined {
+  const rawPrice = Math.pow(TICK_BASE, tick);
+  if (rawPrice === 0 || !Number.isFinite(rawPrice)) {
+    return undefined;
+  }
+
+  return adjustForDecimals(rawPrice, decimals0, decimals1);
+}
+
+// Change of the token1/token0 price between two ticks, in percent; decimals cancel out
+export function tickChangeToPercent(fromTick: number, toTick: number): number {
+  return (Math.pow(TICK_BASE, toTick - fromTick) - 1) * 100;
+}
+
+// Convert a raw token1/token0 ratio into whole-token prices in both directions
+function adjustForDecimals(rawPrice: number, decimals0: number, decimals1: number): PoolPrice {
+  const price = rawPrice * Math.pow(10, decimals0 - decimals1);
+
+  return {
+    token1_per_token0: price,
+    token0_per_token1: 1 / price,
+  };
+}
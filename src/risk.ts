@@ -0,0 +1,345 @@
+import { Abi, hash, RpcError } from "starknet";
+import { getBlockTimestamp } from "./block-time";
+import { config, Network } from "./config";
+import { fetchAllEvents } from "./event-fetcher";
+import { collectItemPaths } from "./extensions";
+import { onPoolsIndexed } from "./indexer";
+import { getPoolLiquidity } from "./liquidity";
+import { logger } from "./logger";
+import type { PoolInitializedEvent } from "./pool-events";
+import { getRpcProvider } from "./rpc";
+import { getStore, setBounded } from "./store";
+import { findTokensBySymbol, isVerifiedToken, loadTokenSeeds, normalizeAddress } from "./token-registry";
+
+/**
+ * Scam / suspicious pool scoring.
+ *
+ * Each pool gets a `risk_score` from 0 (nothing suspicious) to 100, the sum
+ * of the weights of the signals it trips, and a `risk_reasons` entry per
+ * signal. Verified tokens (see src/token-registry.ts) are trusted; the other
+ * tokens of a pool are checked for:
+ *
+ *   - symbol_collision: the symbol of a verified token at a different address
+ *   - young_token: deployed less than RISK_MIN_TOKEN_AGE_HOURS before the pool
+ *   - unverified_class: a class hash no verified token uses, unless the class
+ *     is built on the OpenZeppelin ERC-20 component
+ *   - deployer_reuse: a deployer that launched RISK_DEPLOYER_REUSE_THRESHOLD+ tokens
+ *
+ * and the pool itself for an extreme initial tick and for having no liquidity
+ * RISK_LIQUIDITY_GRACE_BLOCKS after creation (indexed pools only).
+ *
+ * Scoring only reads the store, so it is cheap enough to run on every
+ * request. Token provenance (deployment block, deployer, class hash) takes a
+ * few dozen RPC calls per token and is gathered in the background, for tokens
+ * of newly indexed pools and for any token scored before it was inspected.
+ * Scores therefore tighten as provenance comes in; until then, the token is
+ * listed as provenance_pending (weight 0).
+ */
+
+export interface TokenProvenance {
+  address: string;
+  class_hash?: string;
+  deployed_block?: number;
+  // Unix seconds
+  deployed_at?: number;
+  // Account that deployed the token through the Universal Deployer, if it was
+  deployer?: string;
+  // Whether the class is built on the OpenZeppelin ERC-20 component
+  standard_class?: boolean;
+  inspected_at: number;
+}
+
+export interface PoolRisk {
+  risk_score: number;
+  risk_reasons: string[];
+}
+
+const RISK_WEIGHTS = {
+  symbol_collision: 40,
+  provenance_pending: 0,
+  young_token: 15,
+  unverified_class: 15,
+  deployer_reuse: 15,
+  extreme_tick: 20,
+  no_liquidity: 20,
+};
+
+const MAX_RISK_SCORE = 100;
+
+// Ekubo ticks are bounded by ±88,722,883; prices this close to the bounds are
+// only reached by seeding a pool at an absurd price
+const EXTREME_TICK = 80_000_000;
+
+// Universal Deployer contracts (legacy and Cairo 1), at the same address on mainnet and Sepolia
+const UNIVERSAL_DEPLOYERS = [
+  "0x041a78e741e5af2fec34b695679bc6891742439f7afb8484ecd7766661ad02bf",
+  "0x02ceed65a4bd731034c01113685c831b01c15d7d432f71afb1cf1634b53a2125",
+];
+const CONTRACT_DEPLOYED_SELECTOR = hash.getSelectorFromName("ContractDeployed");
+
+// Module paths of the OpenZeppelin ERC-20 component, before and after the
+// per-package split of OpenZeppelin Contracts for Cairo
+const STANDARD_ERC20_MODULES = ["openzeppelin::token::erc20", "openzeppelin_token::erc20"];
+
+// Tokens waiting for inspection, in order, and their keys for deduplication
+const inspectionQueue: { network: Network; address: string }[] = [];
+const queuedTokens = new Set<string>();
+// Whether each class hash is a standard ERC-20 class, keyed by network and class hash
+const standardClasses = new Map<string, boolean>();
+// Backoff state for tokens whose inspection failed
+const failedInspections = new Map<string, { failures: number; retryAt: number }>();
+let inspecting = false;
+
+// Inspect the tokens of newly indexed pools in the background
+export function startRiskInspector(): void {
+  onPoolsIndexed((network, pools) => {
+    for (const pool of pools) {
+      queueTokenInspection(network, pool.pool_key.token0);
+      queueTokenInspection(network, pool.pool_key.token1);
+    }
+  });
+
+  logger.info("Risk inspector started");
+}
+
+// Score a pool from what is known about it and its tokens
+export function scorePoolRisk(pool: PoolInitializedEvent, network: Network): PoolRisk {
+  loadTokenSeeds(network);
+
+  const reasons: { weight: number; reason: string }[] = [];
+  const store = getStore();
+  const verifiedClassHashes = new Set(store.getVerifiedClassHashes(network));
+
+  for (const side of [0, 1] as const) {
+    const label = `token${side}`;
+    const address = normalizeAddress(side === 0 ? pool.pool_key.token0 : pool.pool_key.token1);
+    const symbol = side === 0 ? pool.token0_symbol : pool.token1_symbol;
+
+    if (isVerifiedToken(address, network)) {
+      continue;
+    }
+
+    const impersonated = symbol ? findTokensBySymbol(symbol, network).find(token => token.verified && token.address !== address) : undefined;
+    if (impersonated) {
+      reasons.push({
+        weight: RISK_WEIGHTS.symbol_collision,
+        reason: `symbol_collision: ${label} uses the symbol ${symbol} of verified token ${impersonated.address}`,
+      });
+    }
+
+    const provenance = store.getTokenProvenance(network, address);
+    if (!provenance) {
+      queueTokenInspection(network, address);
+      reasons.push({
+        weight: RISK_WEIGHTS.provenance_pending,
+        reason: `provenance_pending: ${label} has not been inspected yet, so its age, class and deployer are not scored`,
+      });
+      continue;
+    }
+
+    if (provenance.deployed_at !== undefined) {
+      const ageSeconds = pool.timestamp - provenance.deployed_at;
+      if (ageSeconds < config.risk.minTokenAgeHours * 3600) {
+        reasons.push({
+          weight: RISK_WEIGHTS.young_token,
+          reason: `young_token: ${label} was deployed ${(Math.max(ageSeconds, 0) / 3600).toFixed(1)}h before the pool was created`,
+        });
+      }
+    }
+
+    // Without any verified class hash to compare against, every token would look unverified
+    if (provenance.class_hash && !provenance.standard_class && verifiedClassHashes.size > 0 && !verifiedClassHashes.has(provenance.class_hash)) {
+      reasons.push({
+        weight: RISK_WEIGHTS.unverified_class,
+        reason: `unverified_class: ${label} class ${provenance.class_hash} is not used by any verified token`,
+      });
+    }
+
+    if (provenance.deployer) {
+      const deployedTokens = store.countTokensByDeployer(network, provenance.deployer);
+      if (deployedTokens >= config.risk.deployerReuseThreshold) {
+        reasons.push({
+          weight: RISK_WEIGHTS.deployer_reuse,
+          reason: `deployer_reuse: ${label} deployer ${provenance.deployer} has deployed ${deployedTokens} tokens`,
+        });
+      }
+    }
+  }
+
+  if (Math.abs(pool.initial_tick) >= EXTREME_TICK) {
+    reasons.push({
+      weight: RISK_WEIGHTS.extreme_tick,
+      reason: `extreme_tick: initial tick ${pool.initial_tick} is close to the tick bounds`,
+    });
+  }
+
+  if (hasNoLiquidityAfterGracePeriod(pool, network)) {
+    reasons.push({
+      weight: RISK_WEIGHTS.no_liquidity,
+      reason: `no_liquidity: no liquidity was added within ${config.risk.liquidityGraceBlocks} blocks of creation`,
+    });
+  }
+
+  return {
+    risk_score: Math.min(MAX_RISK_SCORE, reasons.reduce((score, { weight }) => score + weight, 0)),
+    risk_reasons: reasons.map(({ reason }) => reason),
+  };
+}
+
+// Liquidity is only known for indexed pools, whose position updates have been ingested
+function hasNoLiquidityAfterGracePeriod(pool: PoolInitializedEvent, network: Network): boolean {
+  const store = getStore();
+  const cursor = store.getCursor(network);
+  if (!cursor || cursor.blockNumber - pool.block_number < config.risk.liquidityGraceBlocks || !store.getPool(network, pool.pool_id)) {
+    return false;
+  }
+
+  const { first_liquidity_block: firstLiquidityBlock } = getPoolLiquidity(network, pool.pool_id);
+  return firstLiquidityBlock === undefined || firstLiquidityBlock > pool.block_number + config.risk.liquidityGraceBlocks;
+}
+
+// Verified tokens only need their class hash, which recordVerifiedClassHashes takes care of
+function queueTokenInspection(network: Network, address: string): void {
+  const normalizedAddress = normalizeAddress(address);
+  const key = `${network}:${normalizedAddress}`;
+  const failed = failedInspections.get(key);
+
+  if (queuedTokens.has(key) || (failed && failed.retryAt > Date.now())) {
+    return;
+  }
+  if (isVerifiedToken(normalizedAddress, network) || getStore().getTokenProvenance(network, normalizedAddress)) {
+    return;
+  }
+
+  queuedTokens.add(key);
+  inspectionQueue.push({ network, address: normalizedAddress });
+  void drainInspectionQueue();
+}
+
+// Inspect queued tokens one at a time, so a burst of new pools doesn't flood the RPC
+async function drainInspectionQueue(): Promise<void> {
+  if (inspecting) {
+    return;
+  }
+  inspecting = true;
+
+  try {
+    let next: { network: Network; address: string } | undefined;
+    while ((next = inspectionQueue.shift())) {
+      const key = `${next.network}:${next.address}`;
+      try {
+        await recordVerifiedClassHashes(next.network);
+        getStore().saveTokenProvenance(next.network, await inspectToken(next.address, next.network));
+        failedInspections.delete(key);
+      } catch (error) {
+        const failures = (failedInspections.get(key)?.failures ?? 0) + 1;
+        failedInspections.set(key, { failures, retryAt: Date.now() + config.tokens.retryBaseMs * 2 ** (failures - 1) });
+        logger.warn("Could not inspect token", { network: next.network, token: next.address, error });
+      } finally {
+        queuedTokens.delete(key);
+      }
+    }
+  } finally {
+    inspecting = false;
+  }
+}
+
+// Find when, and by whom, a token was deployed
+async function inspectToken(address: string, network: Network): Promise<TokenProvenance> {
+  const provider = getRpcProvider(network);
+  const head = await provider.getBlockNumber();
+  const classHash = normalizeAddress(await provider.getClassHashAt(address, head));
+  const deployedBlock = await findDeploymentBlock(address, network, head);
+
+  const provenance: TokenProvenance = {
+    address,
+    class_hash: classHash,
+    deployed_block: deployedBlock,
+    deployed_at: await getBlockTimestamp(network, deployedBlock),
+    deployer: await findDeployer(address, network, deployedBlock),
+    standard_class: await isStandardErc20Class(classHash, network),
+    inspected_at: Date.now(),
+  };
+
+  logger.debug("Found token deployment", { network, token: address, block: deployedBlock, deployer: provenance.deployer });
+
+  return provenance;
+}
+
+// Whether a class is built on the OpenZeppelin ERC-20 component. Most ERC-20s
+// deployed from a standard template have their own class hash, so checking the
+// hash against verified tokens alone would flag them.
+async function isStandardErc20Class(classHash: string, network: Network): Promise<boolean> {
+  const cacheKey = `${network}:${classHash}`;
+  const cached = standardClasses.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const contractClass = await getRpcProvider(network).getClassByHash(classHash);
+  const abi: Abi = (typeof contractClass.abi === "string" ? JSON.parse(contractClass.abi) : contractClass.abi) ?? [];
+  const standard = collectItemPaths(abi).some(path => STANDARD_ERC20_MODULES.some(module => path.startsWith(`${module}::`)));
+  setBounded(standardClasses, cacheKey, standard);
+  return standard;
+}
+
+// First block at which the contract exists. Binary search, since a contract never stops existing.
+async function findDeploymentBlock(address: string, network: Network, head: number): Promise<number> {
+  const provider = getRpcProvider(network);
+  let low = 0;
+  let high = head;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    try {
+      await provider.getClassHashAt(address, middle);
+      high = middle;
+    } catch (error) {
+      if (!(error instanceof RpcError && error.isType("CONTRACT_NOT_FOUND"))) {
+        throw error;
+      }
+      low = middle + 1;
+    }
+  }
+
+  return low;
+}
+
+// The account behind a Universal Deployer ContractDeployed event for the token, if any
+async function findDeployer(address: string, network: Network, blockNumber: number): Promise<string | undefined> {
+  for (const deployerContract of UNIVERSAL_DEPLOYERS) {
+    const events = await fetchAllEvents(network, {
+      address: deployerContract,
+      keys: [[CONTRACT_DEPLOYED_SELECTOR]],
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+    });
+
+    // ContractDeployed data starts with the deployed address, followed by the deployer
+    const deployment = events.find(event => event.data.length > 1 && BigInt(event.data[0]) === BigInt(address));
+    if (deployment) {
+      return normalizeAddress(deployment.data[1]);
+    }
+  }
+
+  return undefined;
+}
+
+// Record the class hashes of verified tokens, which unverified tokens are compared against
+async function recordVerifiedClassHashes(network: Network): Promise<void> {
+  loadTokenSeeds(network);
+  const provider = getRpcProvider(network);
+  const store = getStore();
+
+  for (const token of store.getVerifiedTokens(network)) {
+    if (store.getTokenProvenance(network, token.address)) {
+      continue;
+    }
+    try {
+      const classHash = normalizeAddress(await provider.getClassHashAt(token.address));
+      store.saveTokenProvenance(network, { address: token.address, class_hash: classHash, inspected_at: Date.now() });
+    } catch (error) {
+      logger.debug("Could not fetch class hash of verified token", { token: token.address, error });
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { config, Network } from "./config";
+import { logger } from "./logger";
+
+/**
+ * Recorded JSON-RPC replies, for reproducing behaviour without a live node.
+ *
+ * With RPC_MODE=record, every call that goes through the endpoint pool
+ * (getEvents, getBlock, getBlockNumber, getClassAt, contract calls, header
+ * batches, ...) is sent as usual and its reply saved under RPC_FIXTURES_DIR,
+ * one JSON file per network, method and params. With RPC_MODE=replay, the
+ * same calls are answered from those files and nothing is sent; a call that
+ * was never recorded fails with the file it looked for, so a replay is
+ * deterministic rather than silently partial.
+ *
+ * Calls are matched on method and params, not on the request id, and batches
+ * are recorded and replayed call by call, so a replay works however the calls
+ * were grouped into batches when they were recorded. Replies that are
+ * JSON-RPC errors (e.g. CONTRACT_NOT_FOUND) are recorded too, since callers
+ * depend on them. Calls made against a moving head ("latest", "pending")
+ * replay whatever the last recording saw.
+ */
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number | string;
+  result?: unknown;
+  error?: unknown;
+}
+
+// What is saved per call; method and params are kept for whoever reads the file
+interface RpcFixture {
+  method: string;
+  params?: unknown;
+  result?: unknown;
+  error?: unknown;
+}
+
+// Answer a request body (a single call or a batch) from recorded replies
+export function replayRpcRequest(network: Network, body: string): Response {
+  const request = JSON.parse(body) as JsonRpcRequest | JsonRpcRequest[];
+
+  const replies = (Array.isArray(request) ? request : [request]).map((call): JsonRpcResponse => {
+    const file = getFixturePath(network, call);
+    let fixture: RpcFixture;
+    try {
+      fixture = JSON.parse(readFileSync(file, "utf-8")) as RpcFixture;
+    } catch {
+      throw new Error(`No recorded reply for ${call.method} on ${network} (expected ${file})`);
+    }
+
+    return fixture.error !== undefined
+      ? { jsonrpc: "2.0", id: call.id, error: fixture.error }
+      : { jsonrpc: "2.0", id: call.id, result: fixture.result };
+  });
+
+  return Response.json(Array.isArray(request) ? replies : replies[0]);
+}
+
+// Save the reply to each call of a request body; the response itself is left unread for the caller
+export async function recordRpcExchange(network: Network, body: string, response: Response): Promise<void> {
+  const request = JSON.parse(body) as JsonRpcRequest | JsonRpcRequest[];
+  const reply = await response.clone().json() as JsonRpcResponse | JsonRpcResponse[];
+  const repliesById = new Map((Array.isArray(reply) ? reply : [reply]).map(callReply => [callReply.id, callReply]));
+
+  for (const call of Array.isArray(request) ? request : [request]) {
+    const callReply = repliesById.get(call.id);
+    if (!callReply) {
+      continue;
+    }
+
+    const fixture: RpcFixture = { method: call.method, params: call.params, result: callReply.result, error: callReply.error };
+    const file = getFixturePath(network, call);
+    mkdirSync(join(config.rpc.fixturesDir, network), { recursive: true });
+    writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+
+    logger.debug("Recorded RPC reply", { network, method: call.method, file });
+  }
+}
+
+// <fixtures dir>/<network>/<method>-<hash of method and params>.json
+function getFixturePath(network: Network, call: JsonRpcRequest): string {
+  const digest = createHash("sha256").update(JSON.stringify([call.method, call.params ?? null])).digest("hex");
+  return join(config.rpc.fixturesDir, network, `${call.method}-${digest.slice(0, 16)}.json`);
+}
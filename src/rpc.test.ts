@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { config } from "./config";
+import { getRpcStatus, sendRpcBatch } from "./rpc";
+
+// How a stub endpoint answers: a result, a JSON-RPC error in an HTTP 200 reply, or an HTTP error status
+type Reply = { result: unknown } | { error: { code: number; message: string } } | { status: number };
+
+interface StubEndpoint {
+  server: ReturnType<typeof Bun.serve>;
+  requests: number;
+  reply: Reply;
+}
+
+const OK: Reply = { result: "0x1" };
+
+let primary: StubEndpoint;
+let secondary: StubEndpoint;
+
+function startEndpoint(): StubEndpoint {
+  const endpoint: StubEndpoint = {
+    requests: 0,
+    reply: OK,
+    server: Bun.serve({
+      port: 0,
+      async fetch(request) {
+        endpoint.requests++;
+        const calls = await request.json() as { id: number }[];
+        const reply = endpoint.reply;
+        if ("status" in reply) {
+          return new Response(null, { status: reply.status });
+        }
+        return Response.json(calls.map(call => ({ jsonrpc: "2.0", id: call.id, ...reply })));
+      },
+    }),
+  };
+  return endpoint;
+}
+
+function resetCounts(): void {
+  primary.requests = 0;
+  secondary.requests = 0;
+}
+
+const blockNumber = () => sendRpcBatch("testnet", [{ method: "starknet_blockNumber", params: [] }]);
+
+// The tests share one endpoint pool (testnet's, which no other test uses) and run in order:
+// the failover test leaves the primary endpoint out of rotation, the last one both endpoints
+beforeAll(() => {
+  primary = startEndpoint();
+  secondary = startEndpoint();
+
+  config.rpc.mode = "live";
+  config.rpc.retryBaseMs = 0;
+  config.rpc.rateLimitPerSecond = 1000;
+  config.networks.testnet.rpcEndpoints = [
+    { url: `http://localhost:${primary.server.port}`, weight: 3 },
+    { url: `http://localhost:${secondary.server.port}`, weight: 1 },
+  ];
+});
+
+afterAll(() => {
+  primary.server.stop(true);
+  secondary.server.stop(true);
+  config.rpc.mode = "replay";
+  config.rpc.retryBaseMs = 250;
+  config.rpc.rateLimitPerSecond = 25;
+});
+
+test("spreads requests over the endpoints in proportion to their weights", async () => {
+  resetCounts();
+  for (let i = 0; i < 400; i++) {
+    expect(await blockNumber()).toEqual([{ result: "0x1" }]);
+  }
+
+  expect(primary.requests + secondary.requests).toBe(400);
+  expect(primary.requests / 400).toBeGreaterThan(0.65);
+  expect(primary.requests / 400).toBeLessThan(0.85);
+});
+
+test("passes JSON-RPC errors other than rate limits through without retrying", async () => {
+  resetCounts();
+  primary.reply = secondary.reply = { error: { code: 20, message: "Contract not found" } };
+  try {
+    expect(await blockNumber()).toEqual([{ error: { code: 20, message: "Contract not found" } }]);
+    expect(primary.requests + secondary.requests).toBe(1);
+  } finally {
+    primary.reply = secondary.reply = OK;
+  }
+});
+
+test("fails over on HTTP 429 and on rate limits reported in an HTTP 200 reply", async () => {
+  for (const rateLimit of [{ status: 429 }, { error: { code: -32005, message: "limit exceeded" } }, { error: { code: -32029, message: "Rate limit reached" } }] as Reply[]) {
+    resetCounts();
+    primary.reply = rateLimit;
+    secondary.reply = OK;
+
+    // Requests that hit the primary endpoint are retried on the secondary one
+    for (let i = 0; i < 20 && primary.requests === 0; i++) {
+      expect(await blockNumber()).toEqual([{ result: "0x1" }]);
+    }
+    expect(primary.requests).toBeGreaterThan(0);
+    expect(getRpcStatus("testnet")[0].last_error).toMatch(/429|Rate limited/);
+  }
+
+  // Each of those failures was consecutive, so the primary endpoint has left the rotation
+  const [primaryStatus, secondaryStatus] = getRpcStatus("testnet");
+  expect(primaryStatus).toMatchObject({ weight: 3, healthy: false });
+  expect(primaryStatus.consecutive_failures).toBeGreaterThanOrEqual(config.rpc.failureThreshold);
+  expect(secondaryStatus).toMatchObject({ weight: 1, healthy: true, consecutive_failures: 0 });
+
+  resetCounts();
+  await blockNumber();
+  expect(primary.requests).toBe(0);
+  primary.reply = OK;
+});
+
+test("holds requests to an endpoint to its rate limit", async () => {
+  // Only the secondary endpoint is in rotation now; its bucket holds at most a second of requests
+  config.rpc.rateLimitPerSecond = 20;
+  await blockNumber();
+  resetCounts();
+
+  const startedAt = performance.now();
+  await Promise.all(Array.from({ length: 30 }, blockNumber));
+  const elapsedMs = performance.now() - startedAt;
+
+  expect(secondary.requests).toBe(30);
+  // At most 20 go out straight away, the others at 20 per second
+  expect(elapsedMs).toBeGreaterThanOrEqual(450);
+  expect(elapsedMs).toBeLessThan(3000);
+});
+
+test("fails once every endpoint has been retried", async () => {
+  resetCounts();
+  primary.reply = secondary.reply = { status: 503 };
+  try {
+    await expect(blockNumber()).rejects.toThrow("HTTP 503");
+    expect(primary.requests + secondary.requests).toBe(config.rpc.maxRetries + 1);
+  } finally {
+    primary.reply = secondary.reply = OK;
+  }
+});
@@ -0,0 +1,368 @@
+import cron from "node-cron";
+import { RpcProvider } from "starknet";
+import { config, getNetworkConfig, Network, RpcEndpointConfig } from "./config";
+import { logger } from "./logger";
+import { incrementCounter, observeDuration } from "./metrics";
+import { recordRpcExchange, replayRpcRequest } from "./rpc-fixtures";
+
+/**
+ * Starknet RPC provider pool.
+ *
+ * Each network can have several RPC endpoints (STARKNET_RPC_URL and
+ * STARKNET_TESTNET_RPC_URL take comma-separated `url|weight` lists). Every
+ * request goes through one shared RpcProvider per network, whose fetch:
+ *
+ *   - picks a healthy endpoint at random, in proportion to its weight
+ *   - waits for that endpoint's rate limit (RPC_RATE_LIMIT_PER_SECOND)
+ *   - retries network errors, timeouts, HTTP 429 and 5xx responses up to
+ *     RPC_MAX_RETRIES times with exponential backoff, failing over to another
+ *     endpoint on each attempt; rate limits reported as JSON-RPC errors in an
+ *     HTTP 200 reply (e.g. code -32005 "limit exceeded") count as a 429
+ *
+ * sendRpcBatch sends several calls as one JSON-RPC batch through the same
+ * pool. Other JSON-RPC errors (e.g. CONTRACT_NOT_FOUND) are answers, not
+ * failures, and are passed through untouched. Endpoints that fail RPC_FAILURE_THRESHOLD
+ * times in a row, or that fall more than RPC_MAX_LAG_BLOCKS behind the other
+ * endpoints, are taken out of rotation until a background health check finds
+ * them healthy again. When every endpoint is out of rotation, all of them are
+ * tried anyway rather than failing outright.
+ *
+ * RPC_MODE=record saves every reply as a fixture, and RPC_MODE=replay answers
+ * from those fixtures without any endpoint (see src/rpc-fixtures.ts).
+ */
+
+export interface RpcCall {
+  method: string;
+  params: unknown;
+}
+
+// Outcome of one call of a batch: the node either answered or returned a JSON-RPC error
+export type RpcBatchReply = { result: unknown; error?: undefined } | { result?: undefined; error: { code: number; message: string } };
+
+// Health of one endpoint, as reported to callers; the URL is reduced to its host since it may embed an API key
+export interface RpcEndpointStatus {
+  host: string;
+  weight: number;
+  healthy: boolean;
+  consecutive_failures: number;
+  last_error?: string;
+  // Head block at the last health check
+  block_number?: number;
+  latency_ms?: number;
+  checked_at?: number;
+}
+
+interface EndpointState extends RpcEndpointConfig {
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError?: string;
+  blockNumber?: number;
+  latencyMs?: number;
+  checkedAt?: number;
+  // Token bucket for the rate limit
+  tokens: number;
+  refilledAt: number;
+}
+
+const providers = new Map<Network, RpcProvider>();
+const endpointStates = new Map<Network, EndpointState[]>();
+let healthCheckTask: cron.ScheduledTask | undefined;
+let checkingHealth = false;
+
+// Shared provider for a network, routing its requests through the endpoint pool
+export function getRpcProvider(network: Network = "mainnet"): RpcProvider {
+  let provider = providers.get(network);
+  if (!provider) {
+    provider = new RpcProvider({
+      nodeUrl: getEndpoints(network)[0].url,
+      baseFetch: (_url, init) => fetchWithFailover(network, init),
+    });
+    providers.set(network, provider);
+  }
+
+  return provider;
+}
+
+// Send several JSON-RPC calls in one HTTP request through the endpoint pool, replies in call order.
+// Throws if the request fails or the endpoint doesn't support batches.
+export async function sendRpcBatch(network: Network, calls: RpcCall[]): Promise<RpcBatchReply[]> {
+  const response = await fetchWithFailover(network, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(calls.map((call, id) => ({ jsonrpc: "2.0", id, method: call.method, params: call.params }))),
+  });
+
+  const replies = await response.json() as ({ id: number } & RpcBatchReply)[];
+  if (!Array.isArray(replies)) {
+    throw new Error(`RPC endpoint rejected a batch of ${calls.length} calls: ${JSON.stringify(replies).slice(0, 200)}`);
+  }
+
+  const repliesById = new Map(replies.map(reply => [reply.id, reply]));
+  return calls.map((_, id): RpcBatchReply => {
+    const reply = repliesById.get(id);
+    if (!reply) {
+      return { error: { code: -1, message: "Missing from the batch response" } };
+    }
+    return reply.error ? { error: reply.error } : { result: reply.result };
+  });
+}
+
+// Health of every endpoint of a network
+export function getRpcStatus(network: Network): RpcEndpointStatus[] {
+  return getEndpoints(network).map(endpoint => ({
+    host: getHost(endpoint.url),
+    weight: endpoint.weight,
+    healthy: endpoint.healthy,
+    consecutive_failures: endpoint.consecutiveFailures,
+    last_error: endpoint.lastError,
+    block_number: endpoint.blockNumber,
+    latency_ms: endpoint.latencyMs,
+    checked_at: endpoint.checkedAt,
+  }));
+}
+
+// Check every endpoint of the indexed networks in the background, bringing recovered ones back into rotation
+export function startRpcHealthChecks(): void {
+  if (config.rpc.mode === "replay") {
+    return;
+  }
+
+  healthCheckTask = cron.schedule(`*/${config.rpc.healthCheckIntervalSeconds} * * * * *`, () => {
+    void checkEndpointHealth();
+  });
+  void checkEndpointHealth();
+
+  logger.info("RPC health checks started", { interval_seconds: config.rpc.healthCheckIntervalSeconds });
+}
+
+export function stopRpcHealthChecks(): void {
+  healthCheckTask?.stop();
+  healthCheckTask = undefined;
+}
+
+function getEndpoints(network: Network): EndpointState[] {
+  let endpoints = endpointStates.get(network);
+  if (!endpoints) {
+    endpoints = getNetworkConfig(network).rpcEndpoints.map(endpoint => ({
+      ...endpoint,
+      healthy: true,
+      consecutiveFailures: 0,
+      tokens: config.rpc.rateLimitPerSecond,
+      refilledAt: Date.now(),
+    }));
+    endpointStates.set(network, endpoints);
+  }
+  return endpoints;
+}
+
+// Send a JSON-RPC request, retrying transport failures on other endpoints
+async function fetchWithFailover(network: Network, init?: RequestInit): Promise<Response> {
+  if (config.rpc.mode === "replay") {
+    return replayRpcRequest(network, String(init?.body));
+  }
+
+  const tried = new Set<EndpointState>();
+  const methods = getRequestMethods(init?.body);
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= config.rpc.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await sleep(config.rpc.retryBaseMs * 2 ** (attempt - 1));
+    }
+
+    const endpoint = pickEndpoint(getEndpoints(network), tried);
+    tried.add(endpoint);
+    await takeRateLimitToken(endpoint);
+
+    let response: Response | undefined;
+    const startedAt = performance.now();
+    try {
+      response = await fetch(endpoint.url, { ...init, signal: AbortSignal.timeout(config.rpc.timeoutMs) });
+      if (response.status === 429 || response.status >= 500) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+      const rateLimit = await getRateLimitError(response);
+      if (rateLimit) {
+        throw new Error(`Rate limited: ${rateLimit.message} (code ${rateLimit.code})`);
+      }
+    } catch (error) {
+      lastError = error;
+      recordFailure(network, endpoint, error);
+      continue;
+    } finally {
+      recordRequestMetrics(network, methods, response ? String(response.status) : "error", performance.now() - startedAt);
+    }
+
+    endpoint.consecutiveFailures = 0;
+    if (config.rpc.mode === "record") {
+      await recordRpcExchange(network, String(init?.body), response);
+    }
+    return response;
+  }
+
+  throw lastError;
+}
+
+// Some providers answer rate-limited requests with HTTP 200 and a JSON-RPC error, for the whole
+// request or for calls of a batch. Starknet's own error codes are small positive numbers.
+async function getRateLimitError(response: Response): Promise<{ code: number; message: string } | undefined> {
+  const text = await response.clone().text();
+  if (!text.includes('"error"')) {
+    return undefined;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  const replies = (Array.isArray(body) ? body : [body]) as { error?: { code?: number; message?: string } }[];
+  return replies.map(reply => reply?.error).find((error): error is { code: number; message: string } =>
+    error !== undefined && (error.code === -32005 || error.code === 429 || /rate.?limit|too many requests/i.test(error.message ?? ""))
+  );
+}
+
+// Weighted random choice among healthy endpoints not yet tried for this request, widening the pool when none are left
+function pickEndpoint(endpoints: EndpointState[], tried: Set<EndpointState>): EndpointState {
+  const healthy = endpoints.filter(endpoint => endpoint.healthy);
+  const untriedHealthy = healthy.filter(endpoint => !tried.has(endpoint));
+  const candidates = untriedHealthy.length > 0 ? untriedHealthy : healthy.length > 0 ? healthy : endpoints;
+
+  let choice = Math.random() * candidates.reduce((total, endpoint) => total + endpoint.weight, 0);
+  for (const endpoint of candidates) {
+    choice -= endpoint.weight;
+    if (choice < 0) {
+      return endpoint;
+    }
+  }
+  return candidates[candidates.length - 1];
+}
+
+// Wait until the endpoint's token bucket has a request to spare
+async function takeRateLimitToken(endpoint: EndpointState): Promise<void> {
+  const rate = config.rpc.rateLimitPerSecond;
+
+  for (;;) {
+    const now = Date.now();
+    endpoint.tokens = Math.min(rate, endpoint.tokens + ((now - endpoint.refilledAt) / 1000) * rate);
+    endpoint.refilledAt = now;
+
+    if (endpoint.tokens >= 1) {
+      endpoint.tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil(((1 - endpoint.tokens) / rate) * 1000));
+  }
+}
+
+function recordFailure(network: Network, endpoint: EndpointState, error: unknown): void {
+  endpoint.consecutiveFailures++;
+  endpoint.lastError = error instanceof Error ? error.message : String(error);
+
+  if (endpoint.healthy && endpoint.consecutiveFailures >= config.rpc.failureThreshold) {
+    endpoint.healthy = false;
+    logger.warn("RPC endpoint taken out of rotation", { network, host: getHost(endpoint.url), failures: endpoint.consecutiveFailures, error: endpoint.lastError });
+  } else {
+    logger.debug("RPC request failed", { network, host: getHost(endpoint.url), error });
+  }
+}
+
+// Ask every endpoint for its head block; unreachable and lagging endpoints leave the rotation.
+// Networks that are only queried on demand are probed too, so their endpoints can come back.
+async function checkEndpointHealth(): Promise<void> {
+  if (checkingHealth) {
+    return;
+  }
+  checkingHealth = true;
+
+  try {
+    const networks = new Set<Network>([
+      ...config.indexer.networks,
+      ...providers.keys(),
+      ...[...endpointStates].filter(([, endpoints]) => endpoints.some(endpoint => !endpoint.healthy)).map(([network]) => network),
+    ]);
+    for (const network of networks) {
+      const endpoints = getEndpoints(network);
+
+      await Promise.all(endpoints.map(async endpoint => {
+        const startedAt = Date.now();
+        try {
+          await takeRateLimitToken(endpoint);
+          const response = await fetch(endpoint.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ jsonrpc: "2.0", id: 0, method: "starknet_blockNumber", params: [] }),
+            signal: AbortSignal.timeout(config.rpc.timeoutMs),
+          });
+          const body = await response.json() as { result?: number; error?: { message: string } };
+          if (!response.ok || typeof body.result !== "number") {
+            throw new Error(body.error?.message ?? `HTTP ${response.status} ${response.statusText}`);
+          }
+
+          endpoint.blockNumber = body.result;
+          endpoint.latencyMs = Date.now() - startedAt;
+          endpoint.lastError = undefined;
+        } catch (error) {
+          endpoint.blockNumber = undefined;
+          endpoint.lastError = error instanceof Error ? error.message : String(error);
+        } finally {
+          endpoint.checkedAt = Date.now();
+        }
+      }));
+
+      const bestBlock = Math.max(...endpoints.map(endpoint => endpoint.blockNumber ?? -Infinity));
+      for (const endpoint of endpoints) {
+        const lagging = endpoint.blockNumber !== undefined && bestBlock - endpoint.blockNumber > config.rpc.maxLagBlocks;
+        const healthy = endpoint.blockNumber !== undefined && !lagging;
+        if (lagging) {
+          endpoint.lastError = `${bestBlock - endpoint.blockNumber!} blocks behind`;
+        }
+
+        if (healthy !== endpoint.healthy) {
+          logger.info(healthy ? "RPC endpoint back in rotation" : "RPC endpoint taken out of rotation", {
+            network,
+            host: getHost(endpoint.url),
+            error: healthy ? undefined : endpoint.lastError,
+          });
+        }
+        endpoint.healthy = healthy;
+        if (healthy) {
+          endpoint.consecutiveFailures = 0;
+        }
+      }
+    }
+  } finally {
+    checkingHealth = false;
+  }
+}
+
+// JSON-RPC methods called by a request body, one entry per call of a batch
+function getRequestMethods(body: RequestInit["body"]): string[] {
+  try {
+    const request = JSON.parse(String(body)) as { method: string } | { method: string }[];
+    return (Array.isArray(request) ? request : [request]).map(call => call.method);
+  } catch {
+    return ["unknown"];
+  }
+}
+
+function recordRequestMetrics(network: Network, methods: string[], status: string, durationMs: number): void {
+  for (const method of methods) {
+    incrementCounter("ekubo_rpc_requests_total", { network, method, status });
+  }
+  observeDuration("ekubo_rpc_request_duration_seconds", { network, method: methods.length === 1 ? methods[0] : "batch" }, durationMs / 1000);
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,156 +0,0 @@
-// Starknet token addresses to symbols mapping
-
-export const STARKNET_TOKENS = {
-  // Source: https://github.com/starknet-io/starknet-addresses/blob/master/bridged_tokens/mainnet.json
-  "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d": "STRK",
-  "0x0782f0ddca11d9950bc3220e35ac82cf868778edb67a5e58b39838544bc4cd0f": "vSTRK",
-  "0x03fe2b97c1fd336e750087d68b9b867997fd64a2661ff3ca5a7c771641e8e7ac": "WBTC",
-  "0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8": "USDC",
-  "0x068f5c6a61780768455de69077e07e89787839bf8166decfbf92b645209c0fb8": "USDT",
-  "0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7": "ETH",
-  "0x05574eb6b8789a91466f902c380d978e472db68170ff82a5b650b95a58ddf4ad": "DAI",
-  "0x00da114221cb83fa859dbdb4c44beeaa0bb37c7537ad5ae66fe5e0efd20e6eb3": "DAI",
-  "0x042b8f0484674ca266ac5d08e4ac6a3fe65bd3129795def2dca5c34ecc5f96d2": "wstETH",
-  "0x0319111a5037cbec2b3e638cc34a3474e2d2608299f3e62866e9cc683208c610": "rETH",
-  "0x01fa2fb85f624600112040e1f3a848f53a37ed5a7385810063d5fe6887280333": "R",
-  "0x009c6b4fb13dfaa025c1383ed6190af8ed8cbb09d9588a3bb020feb152442406": "FRAX",
-  "0x0058efd0e73c33a848ffaa88738d128ebf0af98ea78cf3c14dc757bb02d39ffb": "FXS",
-  "0x04578fffc279e61b5cb0267a5f8e24b6089d40f93158fbbad2cb23b8622c9233": "sfrxETH",
-  "0x070a76fd48ca0ef910631754d77dd822147fe98a569b826ec85e3c33fde586ac": "LUSD",
-  "0x049210ffc442172463f3177147c1aeaa36c51d152c1b0630f2364c300d4f48ee": "UNI",
-  "0x04daa17763b286d1e59b97c283c0b8c949994c361e426a28f743c67bdfe9a32f": "tBTC",
-  "0x051de263cd428db304bef484c70f4a897725f64b2680bea3832dbbbe3810e503": "TONCOIN",
-  "0x0059907104adaad5ab2cee1151028af1311ecd527063da87bdf9089025b7fd4e": "WETH",
-  "0x010740ef3944861b7333747cf43d6f6363b950796af6ceb9fbdfb52279dfdb3c": "LEO",
-  "0x07282a58218523eccd963783062a4de4efe69802aad90fe07fef7e1b32ffaaa4": "FET",
-  "0x02650ea9af204ba33d4e743ee8ff826b5bec3f5ce497efed832e5c3794483e3c": "POL",
-  "0x0296e7cb261317b3a42f32225728441b14ec6bfaee68ba3202e7467a5a2268ce": "FDUSD",
-  "0x05e55c3f6d963e85b8bba613ed7a670c4b5bdae5dcb51e9cb7786f81c42a1c01": "USDe",
-  "0x057667c81dfb1bf52ed4841d048d60df54a4a2f838af2b6bff3b3f7765c8606a": "OKB",
-  "0x02bae8b6f9e477ef6cea58a436c77346f05172ca7e4c2bc8191615ee7fc8fbdd": "IMX",
-  "0x02f5eb9a4f77b6c7c83488418e77329d31eb43219745959948a0fce9580905d9": "AAVE",
-  "0x01885bc270971af2e2bd22896762525c464f468d30c5294f45e672cb40bb6fcf": "CRO",
-  "0x04eed8d1e2f2ec96fa4e2e2c06d160507b7cfada44196b674c256b427615da22": "RNDR",
-  "0x0417e84f8625a4b24f3211ea1827b7d1ee593a87d17032ad3c8eb007e41acdfc": "MNT",
-  "0x07d31cfe2088cd11c14f57964e6e5d02c09df068fd5f512cb6c4189988dc9aae": "INJ",
-  "0x0161248ade65fa7e3043ce4a1e2fac99b126544c4e5967b2ab4fbde69eae0bc7": "FTM",
-  "0x06599e91f456e168abb33f382a8010d342b830a1d781bd7cd7a2520806ed4c01": "GRT",
-  "0x04ce1c6bb3a1ccc62a808ae7ad87695128b55b49d72e4b976b450945e2e9303a": "Bonk",
-  "0x0390928ac5460f166f9bfac445bceb50109a2c5db3b74fc11b6b0e007adca996": "mETH",
-  "0x03119f4eeedbc6d0c32b62fb541ba3ce0a67aff0271b7f7fa31f5b0ffd16d30b": "OM",
-  "0x029e919269dd93ca38bfac25ba9e38f352b2265cc28350933a09add5ada01434": "ONDO",
-  "0x02822423363090c29e9d9c89a5801e917e4c97475a2c7bfb24fdb56ced792cda": "QNT",
-  "0x04df6f600f713040f32f539edc947973e3166cc345cb1c649a9ae2830dcae6c6": "JASMY",
-  "0x072f1e1ecdb5bd9f7347a12b691b0f44a93c1dfae744eeba5d91b95c682d8e38": "LDO",
-  "0x053e3ac22b25f0e0bbfde091c856c3bb812a0f02b7999c76a32303e20ee25b3a": "WLD",
-  "0x0254ea24d4df7a42f2fbebc46daca9de04e734899f1872ab84978c8cffa0daa7": "BTT",
-  "0x040338b20967fe2a3503625faf934434a23cdd04c85bdc99301eb380b5b60c9b": "W",
-  "0x064d52552b2170a0d90237ef433245f94dee4f0032fdd04fe0fc67ba2d5ce8af": "FTN",
-  "0x035f3dbe98217ba826ead699236a41f308686debfdff1888040266f3d5ee6f83": "BEAM",
-  "0x049ccfa008974dfdc74b9a5015cfeea880b6096a517ac56b2ea81e2e06f19331": "ezETH",
-  "0x019110887221c1cb3fa95bbbfce818c88bfd6a74af2c4574b6455dd1bdc9a974": "ENA",
-  "0x00bdd35954d04d51ec911945db4f8d971954acee01ef8fad2b9b8d4c5459980b": "GALA",
-  "0x05d3ca7c56033f59f072026206cd52f1b7caf139d385caded65b763574cf8070": "USDD",
-  "0x03487c74ff7ffd5dc3c1c608e209971af9b25983af29f59f75b7f1c3ebfbc0de": "PYUSD",
-  "0x064ddae098ef41b0cc4c1f62061604df39abbe2d8aabc32c65edbc515326448b": "AXS",
-  "0x027053736000d58e1a26c80e71fd9e11e217982b07e595bc38b936596560ca4f": "TKX",
-  "0x012cda0aef674264fc5414b41e4356f44a887cef99c102c89da100abc44465f8": "XAUt",
-  "0x0224426a2edf5742ba932bd10d1649b907daee08c7c751aa7041d1df2149e0a8": "PENDLE",
-  "0x04155c338159d0073ccf598f597e961584c3c39d71979d650d27592501386766": "SAND",
-  "0x05b3fcb709ee60f84a491e13948299255886b62ac8440ddf49df72c4de704f19": "rsETH",
-  "0x0178b3fe63dd841fe16eaf8db9679fa7de4ab4fc1508da0e3f995e11c97abc0d": "EIGEN",
-  "0x020a006e7ffb7173f3222b179b7fb16b15116edd15d46ebe21895ab1a7214681": "CHZ",
-  "0x01e3a749eb19331cd8ac1df92606075ef387c1d137f4c9ae5a9d73665badb8f4": "ENS",
-  "0x003f6db7a0d914fccc8c413ed3c050820a8402f938beed26c72684d770a47c1a": "MANA",
-  "0x0048a29fe86c4a1f6e34980818e1c98cc262a6480cbfb6ba792bd9f15a0c0147": "AXL",
-  "0x003e6043b2422fc54163fd7e673454b208e838ce4a5b3efbaa2333671985377c": "AIOZ",
-  "0x079cb2d53e1e0394a2ecf2ee6e8cf1823e5f7120d638a5ecd4980ee51b150e5a": "APE",
-  "0x07b82ce41c3511f2663ba8858038b7bf8c3d4b19951c35131e2553a4402305e1": "SNX",
-  "0x04efdd3ba41c456906043d29be389ff792277a09b7eb75f03a5a485884b6b235": "PRIME",
-  "0x07417285d944ef77247be33b87769929e0d413e24000258a5fc61ae7d12b209d": "SUPER",
-  "0x07dd28d98a01efc126efba779144b0bace4bbf406760c831c9113b7d576e2b9c": "DEXE",
-  "0x04a909347487d909a6629b56880e6e03ad3859e772048c4481f3fba88ea02c21": "SAFE",
-  "0x012fa11d6667ef36546bd8412e20527dd0c65c9163920cc69313cf72029df358": "frxETH",
-  "0x02e1b2ca66f4e705af87955dbfbae14bdc3061aa9cf1aa188369d011fc3a725f": "BLUR",
-  "0x07114515d26ec556aaf75fad16b0c7e071f8934c1b0dcf9b39e3b38198b51678": "LPT",
-  "0x04c7804c92a5c18b0f209b7d820992ff1595ee0964fc7c0791b8ec4a1b33294d": "GNO",
-  "0x004e4299b537ec14235f58371bc23c636a8f7a2ad58b3a3e76abe25b0fb0706e": "Neiro",
-  "0x078f85bf48946640d0f8cc441b7cac78cedf30c29015b5ceac5350b259cc4137": "NFT",
-  "0x01e31ca31b1de4e844565be0bb22bfbdf657b020b61d948333ab86b2798f3137": "DYDX",
-  "0x0354ffe57832ca72f2edf88a7ecec3479422d8321d9dc680e1f9e7fc5aa7a84d": "COMP",
-  "0x0029bb23d646272a4455028f7415e5ccd6c5b5f67432b03dde59a8abacf3df74": "ARKM",
-  "0x006b8e6b6ecc696375ffc1b7dad379acc0132adde24c1e057de3f79a84703b84": "pepecoin",
-  "0x06f1497a5c7638720255dad058fba4f886b337b523b113ff6880f3b9fa81dc4b": "TURBO",
-  "0x04bd992b5c9fcbe240aa49d2f03391854d6d3792b2eb187b36a9b57e0e4576c5": "PEOPLE",
-  "0x00310dbf35cc5e9a40e1feca3e8e76204f97a6abab4e49b684b66903a4802f99": "BGB",
-  "0x013673c0beca6017b2354b6ee6577e1d6b1caf156ff1c8d9d1b9a3009414756e": "SPX",
-  "0x0343222014d664860a84cbf3dff729bf6863a135c3c032360ef6aaf5e82e76bf": "VIRTUAL",
-  "0x02c074b8c26e1060031fb73f5b2d243e6713cb44647f68e7798beeb9443f585f": "CRV",
-  "0x0217a51f49af3122298a69477dfd7cca6bbb8d6b17e8cc347af8c399efead0d7": "HOT",
-  "0x020f0f73c4906b1f6732f10e93f378c610ebdd2ac74d2fa7a36fdbf7f7b16510": "1INCH",
-  "0x0211fb14971ced912efc50897f8e69131fd998f1900b34902ff168914d2ae4f5": "ENJ",
-  "0x067b7c29e695ea4fc3fab3abca5192cc7d7060c100e33865a1e8ff6c68aa719e": "PAXG",
-  "0x00119cead294cfc93f91068f201adf391a32799f6aaeaaf006face27720fc139": "NOG",
-  "0x00585c32b625999e6e5e78645ff8df7a9001cf5cf3eb6b80ccdd16cb64bd3a34": "ZEND",
-  "0x03b992772a23dfd3280501e6446c5e3d1f4e47b79a7160b010efa28b22fe6476": "stUSD",
-  "0x03d66fa7694b3ea555e9e11c8445099153902d6c574140c329a427472c1c6bc2": "stEUR",
-  "0x075afe6402ad5a5c20dd25e10ec3b3986acaa647b77e4ae24b0cbc9a54a27a87": "EKUBO",
-  "0x05374069dd071abef7ed0a5d39eaaabcdd49d0caa4fef89664a9d247c62282b6": "MVI",
-  "0x0448557540a3708f81fdd2a972b1f989c0cb4d34913cd50a148a310e1dc15b69": "DPI",
-  "0x00c530f2c0aa4c16a0806365b0898499fba372e5df7a7172dc6fe9ba777e8007": "NSTR",
-  "0x0391169d35d787588c25b4a2527c13a61e6fdc598a655f5226303602ac73508d": "dETH",
-  "0x00eacceae729b4552d52b4de2dae5287d25fd9cb66761a785ad10969f3349678": "BNB",
-  "0x03aa4965f97d19448b71deff08ead5d04e241f6360b3503acb38e87e18f13d47": "NEAR",
-  "0x03070d5cbd310edc0b2cfe8b11d132e67718b16c7fbfd536ee74ec54a4307ba2": "ARB",
-  "0x0340453d64be6c34baf1a92345755dd7a38079ee6cdb881784158a0db9d14a19": "MATIC",
-  "0x04229dea0c8f38a6b9a93313f5a26bcd8923e4faa2d839cbfcbee1e847cc2abe": "PEPE",
-  "0x02119755fad7cbf637d80cae5d3e8e12487befe6653ddd04432a73f6f569f46b": "SHIB",
-  "0x0299b16ebf8ddc3bb9957ec2a03cc01f2efba7efbba76886011009a050a3b6c6": "FLOKI",
-  "0x05a1af084f801e874639e1d4bc0225a3d9b13878dbd7e169317971d1b94e59a9": "TRUMP",
-  "0x07ca707f3147a2330dacce6fe517ace038514e40ad898bc7bee32b80fc95c9bc": "HNST",
-  "0x0356f304b154d29d2a8fe22f1cb9107a9b564a733cf6b4cc47fd121ac1af90c9": "sSTRK",
-  "0x060f47b96b525c1014fed595e87e98edc3ce0731627a0670e1804ee1a3ca0ee9": "LINK",
-  "0x06e55c73f4a1fbd21b8db58dc205df62cf461a10756d43ca6b88d453c07d181f": "MOVE",
-  "0x046e3f68142ff13883273fc538213a0d24e415d48a0b5c487a55497235c8db03": "BIO",
-  "0x06805eb773a7dc50c84290c9708c22393596325f330bcc32eacc111790d93210": "RSR",
-  "0x061c68717c10da8adf6bd5cda6840510d6e70c62fcf96d25a57bfcf2932beca6": "pumpBTC",
-  "0x057a66754ba6c64c1705a007e8b5e7d17a88593234fb854a1e111f2bfce65450": "enzoBTC",
-  "0x0593e034dda23eea82d2ba9a30960ed42cf4a01502cc2351dc9b9881f9931a68": "SolvBTC",
-  "0x02019e47a0bc54ea6b4853c6123ffc8158ea3ae2af4166928b0de6e89f06de6c": "rUSDC-stark",
-  "0x0436ba0542f4a05047d4d045c4f9b51e8d1c9d6a3812b9a2bd91b4ae3d2532a0": "USR",
-  "0x01e77aec81ef65db5fb788a5a04fd9d23f6f4c860eb2fb0e99ace5c45b021071": "ZRO",
-  "0x023a312ece4a275e38c9fc169e3be7b5613a0cb55fe1bece4422b09a88434573": "uniBTC",
-  "0x039a41cb1ca8b375568f20a5bf91318e05c1e4f226437c493f461df309bf99d5": "brBTC",
-  "0x036834a40984312f7f7de8d31e3f6305b325389eaeea5b1c0664b2fb936461a4": "LBTC",
-  "0x04e4fb1a9ca7e84bae609b9dc0078ad7719e49187ae7e425bb47d131710eddac": "mRe7BTC",
-  "0x06a567e68c805323525fe1649adb80b03cddf92c23d2629a6779f54192dffc13": "xWBTC",
-  "0x043a35c1425a0125ef8c171f1a75c6f31ef8648edcc8324b55ce1917db3f9b91": "xtBTC",
-  "0x07dd3c80de9fcc5545f0cb83678826819c79619ed7992cc06ff81fc67cd2efe0": "xLBTC",
-  "0x0580f3dc564a7b82f21d40d404b3842d490ae7205e6ac07b1b7af2b4a5183dc9": "xsBTC",
-
-  // Starknet native tokens
-  "0x0498edfaf50ca5855666a700c25dd629d577eb9afccdf3b5977aec79aee55ada": "CASH"
-} as const;
-
-// Helper function to get token symbol by address
-export function getTokenSymbol(address: string): string | undefined {
-  return STARKNET_TOKENS[address.toLowerCase()];
-}
-
-// Helper function to check if an address is a known Starknet token
-export function isStarknetToken(address: string): boolean {
-  return address.toLowerCase() in STARKNET_TOKENS;
-}
-
-// Get all token addresses
-export function getAllTokenAddresses(): string[] {
-  return Object.keys(STARKNET_TOKENS);
-}
-
-// Get all token symbols
-export function getAllTokenSymbols(): string[] {
-  return [...new Set(Object.values(STARKNET_TOKENS))]; // Remove duplicates
-}
-
-// Export default for convenience
-export default STARKNET_TOKENS;
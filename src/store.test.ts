@@ -0,0 +1,109 @@
+import { expect, test } from "bun:test";
+import type { PositionUpdatedEvent } from "./core-events";
+import type { PoolInitializedEvent } from "./pool-events";
+import { createSqliteStore } from "./store";
+
+const POOL_KEY = {
+  token0: "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+  token1: "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+  fee: "170141183460469235273462165868118016",
+  tick_spacing: 1000,
+  extension: "0x0",
+};
+
+function makePool(poolId: string, blockNumber: number): PoolInitializedEvent {
+  return {
+    pool_id: poolId,
+    pool_key: POOL_KEY,
+    initial_tick: 0,
+    sqrt_ratio: (2n ** 128n).toString(),
+    block_number: blockNumber,
+    block_hash: `0xb${blockNumber}`,
+    transaction_hash: `0xt${poolId}`,
+    timestamp: 1760000000 + blockNumber,
+    finality: "accepted_on_l2",
+  };
+}
+
+function makePositionUpdate(poolId: string, blockNumber: number, liquidityDelta: bigint): PositionUpdatedEvent {
+  return {
+    type: "PositionUpdated",
+    block_number: blockNumber,
+    block_hash: `0xb${blockNumber}`,
+    transaction_hash: `0xp${poolId}${blockNumber}`,
+    event_index: 0,
+    locker: "0x10",
+    pool_id: poolId,
+    pool_key: POOL_KEY,
+    params: { salt: "0x0", bounds: { lower: -1000, upper: 1000 }, liquidity_delta: liquidityDelta.toString() },
+    delta: { amount0: liquidityDelta.toString(), amount1: liquidityDelta.toString() },
+  };
+}
+
+test("rollbackTo removes pools, events and pending deliveries after the block and rebuilds aggregates", () => {
+  const store = createSqliteStore(":memory:");
+  store.recordIndexedChunk("mainnet", {
+    pools: [makePool("0x1", 100)],
+    events: [makePositionUpdate("0x1", 100, 1000n)],
+  }, { blockNumber: 100, blockHash: "0xb100" });
+  store.recordIndexedChunk("mainnet", {
+    pools: [makePool("0x2", 105)],
+    events: [makePositionUpdate("0x1", 105, 500n), makePositionUpdate("0x2", 105, 10n)],
+  }, { blockNumber: 110, blockHash: "0xb110" });
+  store.saveBlockTimestamp("mainnet", 105, 1760000105);
+
+  store.saveSubscription({ id: "sub", network: "mainnet", url: "https://example.com/hooks", secret: "s", filter: {}, created_at: 0 });
+  store.enqueueDelivery("sub", "0x1", "{}", 0);
+  store.enqueueDelivery("sub", "0x2", "{}", 0);
+
+  expect(store.getEventBlocks("mainnet", 0)).toEqual([{ blockNumber: 100, blockHash: "0xb100" }, { blockNumber: 105, blockHash: "0xb105" }]);
+  expect(store.getPoolLiquidity("mainnet", "0x1")?.total_liquidity).toBe("1500");
+
+  expect(store.rollbackTo("mainnet", 104)).toBe(1);
+
+  expect(store.getPool("mainnet", "0x2")).toBeUndefined();
+  expect(store.getPoolEvents("mainnet", "0x1").map(event => event.block_number)).toEqual([100]);
+  expect(store.getEventBlocks("mainnet", 0)).toEqual([{ blockNumber: 100, blockHash: "0xb100" }]);
+  expect(store.getPoolLiquidity("mainnet", "0x1")?.total_liquidity).toBe("1000");
+  expect(store.getPoolReserves("mainnet", "0x1")).toEqual({ reserve0: "1000", reserve1: "1000" });
+  expect(store.getPoolLiquidity("mainnet", "0x2")).toBeUndefined();
+  expect(store.getBlockTimestamp("mainnet", 105)).toBeUndefined();
+  expect(store.getCursor("mainnet")).toEqual({ blockNumber: 104, blockHash: null });
+  // Only the delivery of the rolled back pool is dropped
+  expect(store.getDueDeliveries(0, 10).map(delivery => delivery.pool_id)).toEqual(["0x1"]);
+
+  store.close();
+});
+
+test("setBlockFinality promotes the pools of a block until they leave the unfinalized set", () => {
+  const store = createSqliteStore(":memory:");
+  store.recordIndexedChunk("mainnet", {
+    pools: [makePool("0x1", 100), makePool("0x2", 100), makePool("0x3", 101)],
+    events: [],
+  }, { blockNumber: 101, blockHash: "0xb101" });
+
+  expect(store.getUnfinalizedBlocks("mainnet")).toEqual([{ blockNumber: 100, blockHash: "0xb100" }, { blockNumber: 101, blockHash: "0xb101" }]);
+
+  store.setBlockFinality("mainnet", 100, "accepted_on_l1");
+
+  expect(store.getUnfinalizedBlocks("mainnet")).toEqual([{ blockNumber: 101, blockHash: "0xb101" }]);
+  expect(store.getPool("mainnet", "0x2")?.finality).toBe("accepted_on_l1");
+  expect(store.getPool("mainnet", "0x3")?.finality).toBe("accepted_on_l2");
+  expect(store.getPoolsSince("mainnet", 0, { finalizedOnly: true }).map(pool => pool.pool_id).sort()).toEqual(["0x1", "0x2"]);
+
+  store.close();
+});
+
+test("events of pools that aren't indexed don't create aggregates", () => {
+  const store = createSqliteStore(":memory:");
+  store.recordIndexedChunk("mainnet", {
+    pools: [makePool("0x1", 100)],
+    events: [makePositionUpdate("0x1", 100, 1000n), makePositionUpdate("0x9", 100, 1000n)],
+  }, { blockNumber: 100, blockHash: "0xb100" });
+
+  expect(store.getPoolLiquidity("mainnet", "0x1")).toMatchObject({ total_liquidity: "1000", position_count: 1 });
+  expect(store.getPoolLiquidity("mainnet", "0x9")).toBeUndefined();
+  expect(store.getPoolReserves("mainnet", "0x9")).toBeUndefined();
+
+  store.close();
+});
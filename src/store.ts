@@ -0,0 +1,1010 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { config, Network } from "./config";
+import type { CoreEvent, CorePoolEvent, CoreEventType, PositionUpdatedEvent, SwappedEvent } from "./core-events";
+import type { PoolLiquidity, PoolReserves } from "./liquidity";
+import { logger } from "./logger";
+import type { PoolFinality, PoolInitializedEvent } from "./pool-events";
+import type { ExtensionInfo } from "./extensions";
+import type { TokenProvenance } from "./risk";
+import type { SwapState, SwapStats } from "./swap-activity";
+import type { TokenMetadata } from "./token-registry";
+import type { WebhookDelivery, WebhookSubscription } from "./webhooks";
+
+/**
+ * Durable storage for indexed pools, pool liquidity, reserves and swap aggregates, block timestamps, token
+ * metadata and provenance, extension classifications, indexer cursors and
+ * webhook subscriptions,
+ * backed by SQLite (bun:sqlite).
+ *
+ * Everything is keyed by network. Pools and Core activity events are stored
+ * as JSON alongside the columns we query on, so new derived fields don't
+ * require a migration.
+ */
+
+export interface PoolQueryOptions {
+  // Only return pools whose block has been accepted on L1
+  finalizedOnly?: boolean;
+}
+
+export interface PoolRepository {
+  getPool(network: Network, poolId: string): PoolInitializedEvent | undefined;
+  // Replace the stored data of an already indexed pool, e.g. once token metadata resolves
+  updatePool(network: Network, pool: PoolInitializedEvent): void;
+  getPoolsSince(network: Network, sinceTimestamp: number, options?: PoolQueryOptions): PoolInitializedEvent[];
+  // Up to `limit` pools after the given one, in stream order (block, transaction hash, pool id)
+  getPoolsAfter(network: Network, after: { blockNumber: number; transactionHash: string; poolId: string }, limit: number): PoolInitializedEvent[];
+  // Pools pairing two tokens, in either order; addresses are compared numerically
+  getPoolsByTokens(network: Network, tokenA: string, tokenB: string): PoolInitializedEvent[];
+  countPools(network: Network): number;
+  // Remove pools created before the given time, with their Core events, aggregates and webhook deliveries
+  deletePoolsBefore(network: Network, timestamp: number): number;
+  // Distinct blocks holding pools that are not yet accepted on L1, oldest first
+  getUnfinalizedBlocks(network: Network): { blockNumber: number; blockHash: string }[];
+  setBlockFinality(network: Network, blockNumber: number, finality: PoolFinality): void;
+}
+
+export interface EventQueryOptions {
+  types?: CoreEventType[];
+  fromBlock?: number;
+}
+
+export interface EventRepository {
+  // Core activity events for a pool, oldest first
+  getPoolEvents(network: Network, poolId: string, options?: EventQueryOptions): CorePoolEvent[];
+  // Distinct blocks holding Core events at or after the given block, oldest first
+  getEventBlocks(network: Network, fromBlock: number): { blockNumber: number; blockHash: string }[];
+}
+
+export interface LiquidityRepository {
+  // Liquidity aggregates, maintained from PositionUpdated events as chunks are recorded
+  getPoolLiquidity(network: Network, poolId: string): PoolLiquidity | undefined;
+  // Token balances of an indexed pool in raw units, maintained from all of its Core events
+  getPoolReserves(network: Network, poolId: string): PoolReserves | undefined;
+}
+
+export interface SwapRepository {
+  // Swap aggregates of an indexed pool from the bucket holding fromBlock onwards
+  getSwapStats(network: Network, poolId: string, fromBlock: number): SwapStats;
+  getSwapState(network: Network, poolId: string): SwapState | undefined;
+}
+
+export interface BlockRepository {
+  getBlockTimestamp(network: Network, blockNumber: number): number | undefined;
+  saveBlockTimestamp(network: Network, blockNumber: number, timestamp: number): void;
+}
+
+export interface TokenRepository {
+  // Addresses are expected to be normalized (see normalizeAddress in src/token-registry.ts)
+  getToken(network: Network, address: string): TokenMetadata | undefined;
+  getTokensBySymbol(network: Network, symbol: string): TokenMetadata[];
+  getVerifiedTokens(network: Network): TokenMetadata[];
+  saveToken(network: Network, token: TokenMetadata): void;
+}
+
+export interface ProvenanceRepository {
+  // Addresses are expected to be normalized (see normalizeAddress in src/token-registry.ts)
+  getTokenProvenance(network: Network, address: string): TokenProvenance | undefined;
+  saveTokenProvenance(network: Network, provenance: TokenProvenance): void;
+  // Number of tokens known to have been deployed by an account
+  countTokensByDeployer(network: Network, deployer: string): number;
+  // Class hashes of verified tokens, i.e. token implementations known to be legitimate
+  getVerifiedClassHashes(network: Network): string[];
+}
+
+export interface ExtensionRepository {
+  // Addresses are expected to be normalized (see normalizeAddress in src/token-registry.ts)
+  getExtension(network: Network, address: string): ExtensionInfo | undefined;
+  getExtensionsByClassHash(network: Network, classHash: string): ExtensionInfo[];
+  getExtensionsBySource(network: Network, source: ExtensionInfo["source"]): ExtensionInfo[];
+  saveExtension(network: Network, extension: ExtensionInfo): void;
+}
+
+export interface IndexerCursor {
+  blockNumber: number;
+  // Hash of the block at the cursor, used to detect reorgs; null right after a rollback
+  blockHash: string | null;
+}
+
+// Everything ingested from one block range
+export interface IndexedChunk {
+  pools: PoolInitializedEvent[];
+  events: CoreEvent[];
+}
+
+export interface CursorRepository {
+  getCursor(network: Network): IndexerCursor | null;
+  // Save what was found in a block range and advance the cursor atomically
+  recordIndexedChunk(network: Network, chunk: IndexedChunk, cursor: IndexerCursor): void;
+  // Remove everything indexed after the given block, with queued webhook deliveries of the
+  // removed pools, and move the cursor back to it
+  rollbackTo(network: Network, blockNumber: number): number;
+}
+
+export interface SubscriptionRepository {
+  saveSubscription(subscription: WebhookSubscription): void;
+  getSubscription(id: string): WebhookSubscription | undefined;
+  getSubscriptions(network: Network): WebhookSubscription[];
+  // Remove a subscription together with its deliveries
+  deleteSubscription(id: string): void;
+  // Queue a delivery unless one already exists for the subscription and pool; returns whether it was queued
+  enqueueDelivery(subscriptionId: string, poolId: string, payload: string, now: number): boolean;
+  // Pending deliveries whose next attempt is due, oldest first
+  getDueDeliveries(now: number, limit: number): WebhookDelivery[];
+  updateDelivery(
+    id: number,
+    update: Pick<WebhookDelivery, "status" | "attempts" | "next_attempt_at" | "updated_at" | "last_error">
+  ): void;
+  getDeadLetters(subscriptionId: string): WebhookDelivery[];
+}
+
+export interface Store
+  extends PoolRepository, EventRepository, LiquidityRepository, SwapRepository, BlockRepository, TokenRepository, ProvenanceRepository, ExtensionRepository,
+    CursorRepository, SubscriptionRepository {
+  close(): void;
+}
+
+// Schema migrations, applied in order and tracked with PRAGMA user_version
+const MIGRATIONS: string[] = [
+  `CREATE TABLE pools (
+     network TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     transaction_hash TEXT NOT NULL,
+     block_number INTEGER NOT NULL,
+     block_hash TEXT NOT NULL,
+     timestamp INTEGER NOT NULL,
+     finality TEXT NOT NULL,
+     token0 TEXT NOT NULL,
+     token1 TEXT NOT NULL,
+     data TEXT NOT NULL,
+     PRIMARY KEY (network, pool_id)
+   );
+   CREATE INDEX pools_network_timestamp ON pools (network, timestamp);
+   CREATE INDEX pools_network_block ON pools (network, block_number);
+   CREATE TABLE core_events (
+     network TEXT NOT NULL,
+     transaction_hash TEXT NOT NULL,
+     event_index INTEGER NOT NULL,
+     block_number INTEGER NOT NULL,
+     block_hash TEXT NOT NULL,
+     type TEXT NOT NULL,
+     pool_id TEXT,
+     data TEXT NOT NULL,
+     PRIMARY KEY (network, transaction_hash, event_index)
+   );
+   CREATE INDEX core_events_network_pool ON core_events (network, pool_id, block_number);
+   CREATE INDEX core_events_network_block ON core_events (network, block_number);
+   CREATE TABLE block_timestamps (
+     network TEXT NOT NULL,
+     block_number INTEGER NOT NULL,
+     timestamp INTEGER NOT NULL,
+     PRIMARY KEY (network, block_number)
+   );
+   CREATE TABLE indexer_cursors (
+     network TEXT PRIMARY KEY,
+     last_indexed_block INTEGER NOT NULL,
+     block_hash TEXT,
+     updated_at INTEGER NOT NULL
+   );
+   CREATE TABLE tokens (
+     network TEXT NOT NULL,
+     address TEXT NOT NULL,
+     name TEXT,
+     symbol TEXT,
+     decimals INTEGER,
+     total_supply TEXT,
+     verified INTEGER NOT NULL DEFAULT 0,
+     source TEXT NOT NULL,
+     updated_at INTEGER NOT NULL,
+     PRIMARY KEY (network, address)
+   );
+   CREATE INDEX tokens_network_symbol ON tokens (network, symbol COLLATE NOCASE);
+   CREATE TABLE token_provenance (
+     network TEXT NOT NULL,
+     address TEXT NOT NULL,
+     class_hash TEXT,
+     deployed_block INTEGER,
+     deployed_at INTEGER,
+     deployer TEXT,
+     standard_class INTEGER,
+     inspected_at INTEGER NOT NULL,
+     PRIMARY KEY (network, address)
+   );
+   CREATE INDEX token_provenance_network_deployer ON token_provenance (network, deployer);
+   CREATE TABLE extensions (
+     network TEXT NOT NULL,
+     address TEXT NOT NULL,
+     type TEXT NOT NULL,
+     name TEXT,
+     class_hash TEXT,
+     source TEXT NOT NULL,
+     updated_at INTEGER NOT NULL,
+     PRIMARY KEY (network, address)
+   );
+   CREATE INDEX extensions_network_class_hash ON extensions (network, class_hash);
+   CREATE TABLE webhook_subscriptions (
+     id TEXT PRIMARY KEY,
+     network TEXT NOT NULL,
+     url TEXT NOT NULL,
+     secret TEXT NOT NULL,
+     filter TEXT NOT NULL,
+     created_at INTEGER NOT NULL
+   );
+   CREATE INDEX webhook_subscriptions_network ON webhook_subscriptions (network);
+   CREATE TABLE webhook_deliveries (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     subscription_id TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     payload TEXT NOT NULL,
+     status TEXT NOT NULL,
+     attempts INTEGER NOT NULL DEFAULT 0,
+     next_attempt_at INTEGER NOT NULL,
+     last_error TEXT,
+     created_at INTEGER NOT NULL,
+     updated_at INTEGER NOT NULL,
+     UNIQUE (subscription_id, pool_id)
+   );
+   CREATE INDEX webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+   CREATE TABLE pool_positions (
+     network TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     owner TEXT NOT NULL,
+     salt TEXT NOT NULL,
+     lower_tick INTEGER NOT NULL,
+     upper_tick INTEGER NOT NULL,
+     liquidity TEXT NOT NULL,
+     PRIMARY KEY (network, pool_id, owner, salt, lower_tick, upper_tick)
+   );
+   CREATE TABLE pool_liquidity (
+     network TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     total_liquidity TEXT NOT NULL,
+     position_count INTEGER NOT NULL,
+     first_liquidity_block INTEGER,
+     first_liquidity_transaction_hash TEXT,
+     PRIMARY KEY (network, pool_id)
+   );
+   CREATE TABLE pool_reserves (
+     network TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     reserve0 TEXT NOT NULL,
+     reserve1 TEXT NOT NULL,
+     PRIMARY KEY (network, pool_id)
+   );
+   CREATE TABLE pool_swap_buckets (
+     network TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     bucket_start INTEGER NOT NULL,
+     swap_count INTEGER NOT NULL,
+     volume0 TEXT NOT NULL,
+     volume1 TEXT NOT NULL,
+     PRIMARY KEY (network, pool_id, bucket_start)
+   );
+   CREATE TABLE pool_swap_traders (
+     network TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     bucket_start INTEGER NOT NULL,
+     trader TEXT NOT NULL,
+     PRIMARY KEY (network, pool_id, bucket_start, trader)
+   );
+   CREATE TABLE pool_swap_state (
+     network TEXT NOT NULL,
+     pool_id TEXT NOT NULL,
+     last_tick INTEGER NOT NULL,
+     last_sqrt_ratio TEXT NOT NULL,
+     last_swap_block INTEGER NOT NULL,
+     PRIMARY KEY (network, pool_id)
+   );`,
+];
+
+// Per-pool aggregates built from Core events
+const POOL_AGGREGATE_TABLES = ["pool_positions", "pool_liquidity", "pool_reserves", "pool_swap_buckets", "pool_swap_traders", "pool_swap_state"];
+
+interface TokenRow {
+  address: string;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  total_supply: string | null;
+  verified: number;
+  source: "seed" | "contract";
+  updated_at: number;
+}
+
+function fromTokenRow(row: TokenRow): TokenMetadata {
+  return {
+    address: row.address,
+    name: row.name ?? undefined,
+    symbol: row.symbol ?? undefined,
+    decimals: row.decimals ?? undefined,
+    total_supply: row.total_supply ?? undefined,
+    verified: row.verified === 1,
+    source: row.source,
+    updated_at: row.updated_at,
+  };
+}
+
+interface LiquidityRow {
+  pool_id: string;
+  total_liquidity: string;
+  position_count: number;
+  first_liquidity_block: number | null;
+  first_liquidity_transaction_hash: string | null;
+}
+
+function fromLiquidityRow(row: LiquidityRow): PoolLiquidity {
+  return {
+    pool_id: row.pool_id,
+    total_liquidity: row.total_liquidity,
+    position_count: row.position_count,
+    first_liquidity_block: row.first_liquidity_block ?? undefined,
+    first_liquidity_transaction_hash: row.first_liquidity_transaction_hash ?? undefined,
+  };
+}
+
+interface ProvenanceRow {
+  address: string;
+  class_hash: string | null;
+  deployed_block: number | null;
+  deployed_at: number | null;
+  deployer: string | null;
+  standard_class: number | null;
+  inspected_at: number;
+}
+
+function fromProvenanceRow(row: ProvenanceRow): TokenProvenance {
+  return {
+    address: row.address,
+    class_hash: row.class_hash ?? undefined,
+    deployed_block: row.deployed_block ?? undefined,
+    deployed_at: row.deployed_at ?? undefined,
+    deployer: row.deployer ?? undefined,
+    standard_class: row.standard_class === null ? undefined : row.standard_class === 1,
+    inspected_at: row.inspected_at,
+  };
+}
+
+interface ExtensionRow {
+  address: string;
+  type: ExtensionInfo["type"];
+  name: string | null;
+  class_hash: string | null;
+  source: ExtensionInfo["source"];
+}
+
+function fromExtensionRow(row: ExtensionRow): ExtensionInfo {
+  return {
+    address: row.address,
+    type: row.type,
+    name: row.name ?? undefined,
+    class_hash: row.class_hash ?? undefined,
+    source: row.source,
+  };
+}
+
+interface SubscriptionRow {
+  id: string;
+  network: Network;
+  url: string;
+  secret: string;
+  filter: string;
+  created_at: number;
+}
+
+function fromSubscriptionRow(row: SubscriptionRow): WebhookSubscription {
+  return { ...row, filter: JSON.parse(row.filter) };
+}
+
+type DeliveryRow = Omit<WebhookDelivery, "last_error"> & { last_error: string | null };
+
+function fromDeliveryRow(row: DeliveryRow): WebhookDelivery {
+  return { ...row, last_error: row.last_error ?? undefined };
+}
+
+function migrate(db: Database): void {
+  const { user_version: version } = db.query("PRAGMA user_version").get() as { user_version: number };
+
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.exec(`PRAGMA user_version = ${i + 1}`);
+    })();
+
+    logger.debug("Applied store migration", { version: i + 1 });
+  }
+}
+
+// Open (or create) a SQLite store at the given path; ":memory:" is supported
+export function createSqliteStore(path: string): Store {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path, { create: true, strict: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  migrate(db);
+
+  const insertPool = db.query(
+    `INSERT OR REPLACE INTO pools (network, pool_id, transaction_hash, block_number, block_hash, timestamp, finality, token0, token1, data)
+     VALUES ($network, $pool_id, $transaction_hash, $block_number, $block_hash, $timestamp, $finality, $token0, $token1, $data)`
+  );
+  const insertEvent = db.query(
+    `INSERT OR REPLACE INTO core_events (network, transaction_hash, event_index, block_number, block_hash, type, pool_id, data)
+     VALUES ($network, $transaction_hash, $event_index, $block_number, $block_hash, $type, $pool_id, $data)`
+  );
+  const upsertCursor = db.query(
+    `INSERT INTO indexer_cursors (network, last_indexed_block, block_hash, updated_at)
+     VALUES ($network, $block, $block_hash, $updated_at)
+     ON CONFLICT (network) DO UPDATE SET
+       last_indexed_block = excluded.last_indexed_block,
+       block_hash = excluded.block_hash,
+       updated_at = excluded.updated_at`
+  );
+
+  // Aggregates are only kept for indexed pools, which are recorded before the events of their chunk
+  const isIndexedPool = (network: Network, poolId: string) =>
+    db.query("SELECT 1 FROM pools WHERE network = $network AND pool_id = $pool_id").get({ network, pool_id: poolId }) !== null;
+
+  // Liquidity amounts exceed 64 bits, so they are stored as decimal strings and summed here
+  const applyPositionUpdate = (network: Network, event: PositionUpdatedEvent) => {
+    if (!isIndexedPool(network, event.pool_id)) {
+      return;
+    }
+
+    const position = {
+      network,
+      pool_id: event.pool_id,
+      owner: event.locker,
+      salt: event.params.salt,
+      lower_tick: event.params.bounds.lower,
+      upper_tick: event.params.bounds.upper,
+    };
+    const delta = BigInt(event.params.liquidity_delta);
+
+    const positionRow = db.query(
+      `SELECT liquidity FROM pool_positions WHERE network = $network AND pool_id = $pool_id AND owner = $owner
+         AND salt = $salt AND lower_tick = $lower_tick AND upper_tick = $upper_tick`
+    ).get(position) as { liquidity: string } | null;
+    const before = BigInt(positionRow?.liquidity ?? "0");
+    const after = before + delta;
+    db.query(
+      `INSERT OR REPLACE INTO pool_positions (network, pool_id, owner, salt, lower_tick, upper_tick, liquidity)
+       VALUES ($network, $pool_id, $owner, $salt, $lower_tick, $upper_tick, $liquidity)`
+    ).run({ ...position, liquidity: after.toString() });
+
+    const poolRow = db.query("SELECT * FROM pool_liquidity WHERE network = $network AND pool_id = $pool_id")
+      .get({ network, pool_id: event.pool_id }) as LiquidityRow | null;
+    const firstLiquidity = poolRow?.first_liquidity_block == null && delta > 0n;
+    db.query(
+      `INSERT OR REPLACE INTO pool_liquidity
+         (network, pool_id, total_liquidity, position_count, first_liquidity_block, first_liquidity_transaction_hash)
+       VALUES ($network, $pool_id, $total_liquidity, $position_count, $first_liquidity_block, $first_liquidity_transaction_hash)`
+    ).run({
+      network,
+      pool_id: event.pool_id,
+      total_liquidity: (BigInt(poolRow?.total_liquidity ?? "0") + delta).toString(),
+      position_count: (poolRow?.position_count ?? 0) + (before === 0n && after > 0n ? 1 : 0) - (before > 0n && after === 0n ? 1 : 0),
+      first_liquidity_block: firstLiquidity ? event.block_number : poolRow?.first_liquidity_block ?? null,
+      first_liquidity_transaction_hash: firstLiquidity ? event.transaction_hash : poolRow?.first_liquidity_transaction_hash ?? null,
+    });
+  };
+
+  const applySwap = (network: Network, event: SwappedEvent) => {
+    if (!isIndexedPool(network, event.pool_id)) {
+      return;
+    }
+
+    const bucket = { network, pool_id: event.pool_id, bucket_start: event.block_number - (event.block_number % config.swaps.bucketBlocks) };
+    const abs = (amount: string) => (BigInt(amount) < 0n ? -BigInt(amount) : BigInt(amount));
+    const bucketRow = db.query(
+      "SELECT * FROM pool_swap_buckets WHERE network = $network AND pool_id = $pool_id AND bucket_start = $bucket_start"
+    ).get(bucket) as { swap_count: number; volume0: string; volume1: string } | null;
+    db.query(
+      `INSERT OR REPLACE INTO pool_swap_buckets (network, pool_id, bucket_start, swap_count, volume0, volume1)
+       VALUES ($network, $pool_id, $bucket_start, $swap_count, $volume0, $volume1)`
+    ).run({
+      ...bucket,
+      swap_count: (bucketRow?.swap_count ?? 0) + 1,
+      volume0: (BigInt(bucketRow?.volume0 ?? "0") + abs(event.delta.amount0)).toString(),
+      volume1: (BigInt(bucketRow?.volume1 ?? "0") + abs(event.delta.amount1)).toString(),
+    });
+
+    if (event.trader) {
+      db.query(
+        `INSERT OR IGNORE INTO pool_swap_traders (network, pool_id, bucket_start, trader)
+         VALUES ($network, $pool_id, $bucket_start, $trader)`
+      ).run({ ...bucket, trader: event.trader });
+    }
+
+    // Events are recorded in chain order, so the last swap recorded holds the current price
+    db.query(
+      `INSERT OR REPLACE INTO pool_swap_state (network, pool_id, last_tick, last_sqrt_ratio, last_swap_block)
+       VALUES ($network, $pool_id, $last_tick, $last_sqrt_ratio, $last_swap_block)`
+    ).run({
+      network,
+      pool_id: event.pool_id,
+      last_tick: event.tick_after,
+      last_sqrt_ratio: event.sqrt_ratio_after,
+      last_swap_block: event.block_number,
+    });
+  };
+
+  // Token balances of indexed pools: what positions, swaps and fee donations paid in, minus collected fees
+  const adjustReserves = (network: Network, poolId: string, amount0: bigint, amount1: bigint) => {
+    if (!isIndexedPool(network, poolId)) {
+      return;
+    }
+
+    const row = db.query("SELECT reserve0, reserve1 FROM pool_reserves WHERE network = $network AND pool_id = $pool_id")
+      .get({ network, pool_id: poolId }) as { reserve0: string; reserve1: string } | null;
+    db.query(
+      `INSERT OR REPLACE INTO pool_reserves (network, pool_id, reserve0, reserve1)
+       VALUES ($network, $pool_id, $reserve0, $reserve1)`
+    ).run({
+      network,
+      pool_id: poolId,
+      reserve0: (BigInt(row?.reserve0 ?? "0") + amount0).toString(),
+      reserve1: (BigInt(row?.reserve1 ?? "0") + amount1).toString(),
+    });
+  };
+
+  // Fold a newly recorded Core event into the aggregates of its pool
+  const applyPoolEvent = (network: Network, event: CoreEvent) => {
+    const abs = (amount: string) => (BigInt(amount) < 0n ? -BigInt(amount) : BigInt(amount));
+
+    switch (event.type) {
+      case "PositionUpdated":
+        applyPositionUpdate(network, event);
+        adjustReserves(network, event.pool_id, BigInt(event.delta.amount0), BigInt(event.delta.amount1));
+        break;
+      case "Swapped":
+        applySwap(network, event);
+        adjustReserves(network, event.pool_id, BigInt(event.delta.amount0), BigInt(event.delta.amount1));
+        break;
+      case "PositionFeesCollected":
+        adjustReserves(network, event.pool_id, -abs(event.delta.amount0), -abs(event.delta.amount1));
+        break;
+      case "FeesAccumulated":
+        adjustReserves(network, event.pool_id, BigInt(event.amount0), BigInt(event.amount1));
+        break;
+    }
+  };
+
+  // Recompute a pool's aggregates from the events still stored, e.g. after a rollback
+  const rebuildPoolAggregates = (network: Network, poolId: string) => {
+    for (const table of POOL_AGGREGATE_TABLES) {
+      db.query(`DELETE FROM ${table} WHERE network = $network AND pool_id = $pool_id`).run({ network, pool_id: poolId });
+    }
+
+    const rows = db.query(
+      `SELECT data FROM core_events WHERE network = $network AND pool_id = $pool_id
+       ORDER BY block_number ASC, transaction_hash ASC, event_index ASC`
+    ).all({ network, pool_id: poolId }) as { data: string }[];
+    for (const row of rows) {
+      applyPoolEvent(network, JSON.parse(row.data));
+    }
+  };
+
+  const recordIndexedChunk = db.transaction((network: Network, chunk: IndexedChunk, cursor: IndexerCursor) => {
+    for (const pool of chunk.pools) {
+      insertPool.run({
+        network,
+        pool_id: pool.pool_id,
+        transaction_hash: pool.transaction_hash,
+        block_number: pool.block_number,
+        block_hash: pool.block_hash,
+        timestamp: pool.timestamp,
+        finality: pool.finality,
+        token0: pool.pool_key.token0,
+        token1: pool.pool_key.token1,
+        data: JSON.stringify(pool),
+      });
+    }
+    for (const event of chunk.events) {
+      // An event recorded twice must not count twice towards the pool aggregates
+      const isNew = !db.query(
+        "SELECT 1 FROM core_events WHERE network = $network AND transaction_hash = $transaction_hash AND event_index = $event_index"
+      ).get({ network, transaction_hash: event.transaction_hash, event_index: event.event_index });
+
+      insertEvent.run({
+        network,
+        transaction_hash: event.transaction_hash,
+        event_index: event.event_index,
+        block_number: event.block_number,
+        block_hash: event.block_hash,
+        type: event.type,
+        pool_id: "pool_id" in event ? event.pool_id : null,
+        data: JSON.stringify(event),
+      });
+
+      if (isNew) {
+        applyPoolEvent(network, event);
+      }
+    }
+    upsertCursor.run({ network, block: cursor.blockNumber, block_hash: cursor.blockHash, updated_at: Date.now() });
+  });
+
+  const rollbackTo = db.transaction((network: Network, blockNumber: number) => {
+    db.query(
+      `DELETE FROM webhook_deliveries WHERE status = 'pending'
+         AND pool_id IN (SELECT pool_id FROM pools WHERE network = $network AND block_number > $block)
+         AND subscription_id IN (SELECT id FROM webhook_subscriptions WHERE network = $network)`
+    ).run({ network, block: blockNumber });
+    const deleted = db.query("DELETE FROM pools WHERE network = $network AND block_number > $block")
+      .run({ network, block: blockNumber }).changes;
+    const affectedPools = db.query(
+      "SELECT DISTINCT pool_id FROM core_events WHERE network = $network AND block_number > $block AND pool_id IS NOT NULL"
+    ).all({ network, block: blockNumber }) as { pool_id: string }[];
+    db.query("DELETE FROM core_events WHERE network = $network AND block_number > $block")
+      .run({ network, block: blockNumber });
+    for (const { pool_id } of affectedPools) {
+      rebuildPoolAggregates(network, pool_id);
+    }
+    db.query("DELETE FROM block_timestamps WHERE network = $network AND block_number > $block")
+      .run({ network, block: blockNumber });
+    upsertCursor.run({ network, block: blockNumber, block_hash: null, updated_at: Date.now() });
+    return deleted;
+  });
+
+  const deletePoolsBefore = db.transaction((network: Network, timestamp: number) => {
+    const expiredPools = "SELECT pool_id FROM pools WHERE network = $network AND timestamp < $timestamp";
+    for (const table of POOL_AGGREGATE_TABLES) {
+      db.query(`DELETE FROM ${table} WHERE network = $network AND pool_id IN (${expiredPools})`).run({ network, timestamp });
+    }
+    db.query(
+      `DELETE FROM webhook_deliveries WHERE pool_id IN (${expiredPools})
+         AND subscription_id IN (SELECT id FROM webhook_subscriptions WHERE network = $network)`
+    ).run({ network, timestamp });
+    // Events up to the newest expired pool's block can only belong to expired or never indexed pools
+    db.query(
+      `DELETE FROM core_events WHERE network = $network
+         AND (pool_id IN (${expiredPools})
+           OR block_number <= (SELECT MAX(block_number) FROM pools WHERE network = $network AND timestamp < $timestamp))`
+    ).run({ network, timestamp });
+    return db.query("DELETE FROM pools WHERE network = $network AND timestamp < $timestamp")
+      .run({ network, timestamp }).changes;
+  });
+
+  const deleteSubscription = db.transaction((id: string) => {
+    db.query("DELETE FROM webhook_deliveries WHERE subscription_id = $id").run({ id });
+    db.query("DELETE FROM webhook_subscriptions WHERE id = $id").run({ id });
+  });
+
+  return {
+    getPool(network, poolId) {
+      const row = db.query("SELECT data FROM pools WHERE network = $network AND pool_id = $pool_id")
+        .get({ network, pool_id: poolId }) as { data: string } | null;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    updatePool(network, pool) {
+      db.query("UPDATE pools SET data = $data WHERE network = $network AND pool_id = $pool_id")
+        .run({ network, pool_id: pool.pool_id, data: JSON.stringify(pool) });
+    },
+
+    getPoolsSince(network, sinceTimestamp, options = {}) {
+      const finalityClause = options.finalizedOnly ? "AND finality = 'accepted_on_l1'" : "";
+      const rows = db.query(
+        `SELECT data FROM pools WHERE network = $network AND timestamp >= $since ${finalityClause} ORDER BY block_number DESC`
+      ).all({ network, since: sinceTimestamp }) as { data: string }[];
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    getPoolsAfter(network, after, limit) {
+      const rows = db.query(
+        `SELECT data FROM pools WHERE network = $network
+           AND (block_number > $block
+             OR (block_number = $block AND (transaction_hash > $transaction_hash OR (transaction_hash = $transaction_hash AND pool_id > $pool_id))))
+         ORDER BY block_number ASC, transaction_hash ASC, pool_id ASC LIMIT $limit`
+      ).all({ network, block: after.blockNumber, transaction_hash: after.transactionHash, pool_id: after.poolId, limit }) as { data: string }[];
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    getPoolsByTokens(network, tokenA, tokenB) {
+      // Pool keys hold addresses as the RPC returned them, so compare them without padding
+      const strip = (address: string) => BigInt(address).toString(16);
+      const rows = db.query(
+        `SELECT data FROM pools WHERE network = $network
+           AND ((lower(ltrim(substr(token0, 3), '0')) = $a AND lower(ltrim(substr(token1, 3), '0')) = $b)
+             OR (lower(ltrim(substr(token0, 3), '0')) = $b AND lower(ltrim(substr(token1, 3), '0')) = $a))`
+      ).all({ network, a: strip(tokenA), b: strip(tokenB) }) as { data: string }[];
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    countPools(network) {
+      const row = db.query("SELECT COUNT(*) AS count FROM pools WHERE network = $network")
+        .get({ network }) as { count: number };
+      return row.count;
+    },
+
+    deletePoolsBefore(network, timestamp) {
+      return deletePoolsBefore(network, timestamp);
+    },
+
+    getUnfinalizedBlocks(network) {
+      const rows = db.query(
+        `SELECT DISTINCT block_number, block_hash FROM pools
+         WHERE network = $network AND finality != 'accepted_on_l1' ORDER BY block_number ASC`
+      ).all({ network }) as { block_number: number; block_hash: string }[];
+      return rows.map(row => ({ blockNumber: row.block_number, blockHash: row.block_hash }));
+    },
+
+    setBlockFinality(network, blockNumber, finality) {
+      db.query(
+        `UPDATE pools SET finality = $finality, data = json_set(data, '$.finality', $finality)
+         WHERE network = $network AND block_number = $block`
+      ).run({ network, block: blockNumber, finality });
+    },
+
+    getPoolEvents(network, poolId, options = {}) {
+      const typeClause = options.types?.length
+        ? `AND type IN (${options.types.map(type => `'${type}'`).join(", ")})`
+        : "";
+      const rows = db.query(
+        `SELECT data FROM core_events
+         WHERE network = $network AND pool_id = $pool_id AND block_number >= $from_block ${typeClause}
+         ORDER BY block_number ASC, transaction_hash ASC, event_index ASC`
+      ).all({ network, pool_id: poolId, from_block: options.fromBlock ?? 0 }) as { data: string }[];
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    getEventBlocks(network, fromBlock) {
+      const rows = db.query(
+        `SELECT DISTINCT block_number, block_hash FROM core_events
+         WHERE network = $network AND block_number >= $from_block ORDER BY block_number ASC`
+      ).all({ network, from_block: fromBlock }) as { block_number: number; block_hash: string }[];
+      return rows.map(row => ({ blockNumber: row.block_number, blockHash: row.block_hash }));
+    },
+
+    getPoolLiquidity(network, poolId) {
+      const row = db.query("SELECT * FROM pool_liquidity WHERE network = $network AND pool_id = $pool_id")
+        .get({ network, pool_id: poolId }) as LiquidityRow | null;
+      return row ? fromLiquidityRow(row) : undefined;
+    },
+
+    getPoolReserves(network, poolId) {
+      const row = db.query("SELECT reserve0, reserve1 FROM pool_reserves WHERE network = $network AND pool_id = $pool_id")
+        .get({ network, pool_id: poolId }) as PoolReserves | null;
+      return row ?? undefined;
+    },
+
+    getSwapStats(network, poolId, fromBlock) {
+      const params = { network, pool_id: poolId, bucket_start: fromBlock - (fromBlock % config.swaps.bucketBlocks) };
+      const buckets = db.query(
+        `SELECT swap_count, volume0, volume1 FROM pool_swap_buckets
+         WHERE network = $network AND pool_id = $pool_id AND bucket_start >= $bucket_start`
+      ).all(params) as { swap_count: number; volume0: string; volume1: string }[];
+      const traders = db.query(
+        `SELECT COUNT(DISTINCT trader) AS count FROM pool_swap_traders
+         WHERE network = $network AND pool_id = $pool_id AND bucket_start >= $bucket_start`
+      ).get(params) as { count: number };
+
+      return {
+        swap_count: buckets.reduce((count, bucket) => count + bucket.swap_count, 0),
+        volume0: buckets.reduce((volume, bucket) => volume + BigInt(bucket.volume0), 0n).toString(),
+        volume1: buckets.reduce((volume, bucket) => volume + BigInt(bucket.volume1), 0n).toString(),
+        unique_traders: traders.count,
+      };
+    },
+
+    getSwapState(network, poolId) {
+      const row = db.query("SELECT last_tick, last_sqrt_ratio, last_swap_block FROM pool_swap_state WHERE network = $network AND pool_id = $pool_id")
+        .get({ network, pool_id: poolId }) as SwapState | null;
+      return row ?? undefined;
+    },
+
+    getBlockTimestamp(network, blockNumber) {
+      const row = db.query(
+        "SELECT timestamp FROM block_timestamps WHERE network = $network AND block_number = $block"
+      ).get({ network, block: blockNumber }) as { timestamp: number } | null;
+      return row?.timestamp;
+    },
+
+    saveBlockTimestamp(network, blockNumber, timestamp) {
+      db.query(
+        "INSERT OR REPLACE INTO block_timestamps (network, block_number, timestamp) VALUES ($network, $block, $timestamp)"
+      ).run({ network, block: blockNumber, timestamp });
+    },
+
+    getToken(network, address) {
+      const row = db.query("SELECT * FROM tokens WHERE network = $network AND address = $address")
+        .get({ network, address }) as TokenRow | null;
+      return row ? fromTokenRow(row) : undefined;
+    },
+
+    getTokensBySymbol(network, symbol) {
+      const rows = db.query(
+        `SELECT * FROM tokens WHERE network = $network AND symbol = $symbol COLLATE NOCASE
+         ORDER BY verified DESC, address ASC`
+      ).all({ network, symbol }) as TokenRow[];
+      return rows.map(fromTokenRow);
+    },
+
+    getVerifiedTokens(network) {
+      const rows = db.query("SELECT * FROM tokens WHERE network = $network AND verified = 1 ORDER BY address ASC")
+        .all({ network }) as TokenRow[];
+      return rows.map(fromTokenRow);
+    },
+
+    saveToken(network, token) {
+      db.query(
+        `INSERT OR REPLACE INTO tokens (network, address, name, symbol, decimals, total_supply, verified, source, updated_at)
+         VALUES ($network, $address, $name, $symbol, $decimals, $total_supply, $verified, $source, $updated_at)`
+      ).run({
+        network,
+        address: token.address,
+        name: token.name ?? null,
+        symbol: token.symbol ?? null,
+        decimals: token.decimals ?? null,
+        total_supply: token.total_supply ?? null,
+        verified: token.verified ? 1 : 0,
+        source: token.source,
+        updated_at: token.updated_at,
+      });
+    },
+
+    getTokenProvenance(network, address) {
+      const row = db.query("SELECT * FROM token_provenance WHERE network = $network AND address = $address")
+        .get({ network, address }) as ProvenanceRow | null;
+      return row ? fromProvenanceRow(row) : undefined;
+    },
+
+    saveTokenProvenance(network, provenance) {
+      db.query(
+        `INSERT OR REPLACE INTO token_provenance (network, address, class_hash, deployed_block, deployed_at, deployer, standard_class, inspected_at)
+         VALUES ($network, $address, $class_hash, $deployed_block, $deployed_at, $deployer, $standard_class, $inspected_at)`
+      ).run({
+        network,
+        address: provenance.address,
+        class_hash: provenance.class_hash ?? null,
+        deployed_block: provenance.deployed_block ?? null,
+        deployed_at: provenance.deployed_at ?? null,
+        deployer: provenance.deployer ?? null,
+        standard_class: provenance.standard_class === undefined ? null : provenance.standard_class ? 1 : 0,
+        inspected_at: provenance.inspected_at,
+      });
+    },
+
+    countTokensByDeployer(network, deployer) {
+      const row = db.query("SELECT COUNT(*) AS count FROM token_provenance WHERE network = $network AND deployer = $deployer")
+        .get({ network, deployer }) as { count: number };
+      return row.count;
+    },
+
+    getVerifiedClassHashes(network) {
+      const rows = db.query(
+        `SELECT DISTINCT p.class_hash FROM token_provenance p
+         JOIN tokens t ON t.network = p.network AND t.address = p.address
+         WHERE p.network = $network AND t.verified = 1 AND p.class_hash IS NOT NULL`
+      ).all({ network }) as { class_hash: string }[];
+      return rows.map(row => row.class_hash);
+    },
+
+    getExtension(network, address) {
+      const row = db.query("SELECT * FROM extensions WHERE network = $network AND address = $address")
+        .get({ network, address }) as ExtensionRow | null;
+      return row ? fromExtensionRow(row) : undefined;
+    },
+
+    getExtensionsByClassHash(network, classHash) {
+      const rows = db.query("SELECT * FROM extensions WHERE network = $network AND class_hash = $class_hash")
+        .all({ network, class_hash: classHash }) as ExtensionRow[];
+      return rows.map(fromExtensionRow);
+    },
+
+    getExtensionsBySource(network, source) {
+      const rows = db.query("SELECT * FROM extensions WHERE network = $network AND source = $source")
+        .all({ network, source }) as ExtensionRow[];
+      return rows.map(fromExtensionRow);
+    },
+
+    saveExtension(network, extension) {
+      db.query(
+        `INSERT OR REPLACE INTO extensions (network, address, type, name, class_hash, source, updated_at)
+         VALUES ($network, $address, $type, $name, $class_hash, $source, $updated_at)`
+      ).run({
+        network,
+        address: extension.address,
+        type: extension.type,
+        name: extension.name ?? null,
+        class_hash: extension.class_hash ?? null,
+        source: extension.source,
+        updated_at: Date.now(),
+      });
+    },
+
+    getCursor(network) {
+      const row = db.query("SELECT last_indexed_block, block_hash FROM indexer_cursors WHERE network = $network")
+        .get({ network }) as { last_indexed_block: number; block_hash: string | null } | null;
+      return row ? { blockNumber: row.last_indexed_block, blockHash: row.block_hash } : null;
+    },
+
+    recordIndexedChunk(network, chunk, cursor) {
+      recordIndexedChunk(network, chunk, cursor);
+    },
+
+    rollbackTo(network, blockNumber) {
+      return rollbackTo(network, blockNumber);
+    },
+
+    saveSubscription(subscription) {
+      db.query(
+        `INSERT OR REPLACE INTO webhook_subscriptions (id, network, url, secret, filter, created_at)
+         VALUES ($id, $network, $url, $secret, $filter, $created_at)`
+      ).run({ ...subscription, filter: JSON.stringify(subscription.filter) });
+    },
+
+    getSubscription(id) {
+      const row = db.query("SELECT * FROM webhook_subscriptions WHERE id = $id")
+        .get({ id }) as SubscriptionRow | null;
+      return row ? fromSubscriptionRow(row) : undefined;
+    },
+
+    getSubscriptions(network) {
+      const rows = db.query("SELECT * FROM webhook_subscriptions WHERE network = $network ORDER BY created_at ASC")
+        .all({ network }) as SubscriptionRow[];
+      return rows.map(fromSubscriptionRow);
+    },
+
+    deleteSubscription(id) {
+      deleteSubscription(id);
+    },
+
+    enqueueDelivery(subscriptionId, poolId, payload, now) {
+      return db.query(
+        `INSERT OR IGNORE INTO webhook_deliveries (subscription_id, pool_id, payload, status, attempts, next_attempt_at, created_at, updated_at)
+         VALUES ($subscription_id, $pool_id, $payload, 'pending', 0, $now, $now, $now)`
+      ).run({ subscription_id: subscriptionId, pool_id: poolId, payload, now }).changes > 0;
+    },
+
+    getDueDeliveries(now, limit) {
+      const rows = db.query(
+        `SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= $now
+         ORDER BY next_attempt_at ASC LIMIT $limit`
+      ).all({ now, limit }) as DeliveryRow[];
+      return rows.map(fromDeliveryRow);
+    },
+
+    updateDelivery(id, update) {
+      db.query(
+        `UPDATE webhook_deliveries SET status = $status, attempts = $attempts, next_attempt_at = $next_attempt_at,
+           last_error = $last_error, updated_at = $updated_at
+         WHERE id = $id`
+      ).run({ ...update, last_error: update.last_error ?? null, id });
+    },
+
+    getDeadLetters(subscriptionId) {
+      const rows = db.query(
+        "SELECT * FROM webhook_deliveries WHERE subscription_id = $subscription_id AND status = 'dead' ORDER BY id ASC"
+      ).all({ subscription_id: subscriptionId }) as DeliveryRow[];
+      return rows.map(fromDeliveryRow);
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
+
+let defaultStore: Store | undefined;
+
+// Shared store for the process, opened lazily at config.storage.databasePath
+export function getStore(): Store {
+  if (!defaultStore) {
+    defaultStore = createSqliteStore(config.storage.databasePath);
+  }
+  return defaultStore;
+}
+
+// Add a value to an in-memory cache, evicting the oldest entry once
+// config.cache.maxCacheSize is reached
+export function setBounded<K, V>(cache: Map<K, V>, key: K, value: V): void {
+  if (!cache.has(key) && cache.size >= config.cache.maxCacheSize) {
+    const oldest = cache.keys().next();
+    if (!oldest.done) {
+      cache.delete(oldest.value);
+    }
+  }
+  cache.set(key, value);
+}
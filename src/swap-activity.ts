@@ -0,0 +1,203 @@
+import { findFirstBlockAtOrAfter } from "./block-time";
+import type { Network } from "./config";
+import type { CoreEvent } from "./core-events";
+import { logger } from "./logger";
+import type { PoolInitializedEvent } from "./pool-events";
+import { tickChangeToPercent } from "./pricing";
+import { getRpcProvider } from "./rpc";
+import { getStore, setBounded } from "./store";
+import { findTokensBySymbol, normalizeAddress } from "./token-registry";
+
+/**
+ * Swap activity of indexed pools: swap count, volume in each token and
+ * unique traders over rolling 1h / 24h / 7d windows, plus the price change
+ * since the pool was initialized.
+ *
+ * The store aggregates every ingested Ekubo `Swapped` event of an indexed
+ * pool into buckets of SWAP_BUCKET_BLOCKS blocks, in the transaction that
+ * records it, so reading activity never re-scans blocks. Windows are turned
+ * into a starting block at read time, which makes them exact to within one
+ * bucket. Traders are the senders of the swap transactions (the swap's locker
+ * is usually a router), looked up while indexing.
+ */
+
+export interface SwapStats {
+  swap_count: number;
+  // Sum of the absolute token amounts swapped, in raw units, as decimal strings
+  volume0: string;
+  volume1: string;
+  unique_traders: number;
+}
+
+export interface SwapState {
+  last_tick: number;
+  last_sqrt_ratio: string;
+  last_swap_block: number;
+}
+
+export type SwapWindow = "1h" | "24h" | "7d";
+
+export const SWAP_WINDOWS: Record<SwapWindow, number> = {
+  "1h": 60 * 60,
+  "24h": 24 * 60 * 60,
+  "7d": 7 * 24 * 60 * 60,
+};
+
+export interface SwapActivity {
+  windows: Record<SwapWindow, SwapStats>;
+  last_swap_block?: number;
+  // Change of the token1/token0 price from the initial tick to the tick after the last swap, in percent
+  price_change_percent?: number;
+}
+
+export type SwapRanking = "volume" | "swap_count" | "unique_traders";
+
+export interface RankedPool {
+  pool: PoolInitializedEvent;
+  activity: SwapActivity;
+  // Volume in the quote token over the ranking window, when ranking by volume
+  quote_volume?: string;
+}
+
+// Window starts move slowly, so their block searches are shared for a minute
+const WINDOW_START_TTL_MS = 60_000;
+// Transaction lookups in flight at once while resolving traders
+const TRADER_LOOKUP_CONCURRENCY = 10;
+
+const windowStartCache = new Map<string, { blocks: Record<SwapWindow, number>; expiresAt: number }>();
+
+// Swap activity of an indexed pool; undefined for pools that aren't in the index
+export async function getSwapActivity(network: Network, pool: PoolInitializedEvent): Promise<SwapActivity | undefined> {
+  const store = getStore();
+  if (!store.getPool(network, pool.pool_id)) {
+    return undefined;
+  }
+
+  const startBlocks = await getWindowStartBlocks(network);
+  const state = store.getSwapState(network, pool.pool_id);
+
+  return {
+    windows: {
+      "1h": store.getSwapStats(network, pool.pool_id, startBlocks["1h"]),
+      "24h": store.getSwapStats(network, pool.pool_id, startBlocks["24h"]),
+      "7d": store.getSwapStats(network, pool.pool_id, startBlocks["7d"]),
+    },
+    last_swap_block: state?.last_swap_block,
+    price_change_percent: state && tickChangeToPercent(pool.initial_tick, state.last_tick),
+  };
+}
+
+// Indexed pools ranked by their swap activity over a window, most active first. Ranking by
+// volume needs a quote token (address, or symbol of a verified token), since volumes are only
+// comparable in one token.
+export async function rankPoolsBySwaps(
+  network: Network,
+  pools: PoolInitializedEvent[],
+  window: SwapWindow,
+  ranking: SwapRanking,
+  quoteToken?: string
+): Promise<RankedPool[]> {
+  if (ranking === "volume" && !quoteToken) {
+    throw new Error("A quote token is required to rank pools by volume");
+  }
+  const quoteAddress = ranking === "volume" ? resolveQuoteToken(quoteToken!, network) : undefined;
+
+  const ranked: RankedPool[] = [];
+  for (const pool of pools) {
+    const activity = await getSwapActivity(network, pool);
+    if (!activity) {
+      continue;
+    }
+
+    if (ranking !== "volume") {
+      ranked.push({ pool, activity });
+      continue;
+    }
+
+    const side = getQuoteSide(pool, quoteAddress!);
+    if (side !== undefined) {
+      ranked.push({ pool, activity, quote_volume: side === 0 ? activity.windows[window].volume0 : activity.windows[window].volume1 });
+    }
+  }
+
+  const score = (entry: RankedPool): bigint =>
+    ranking === "volume" ? BigInt(entry.quote_volume!) : BigInt(entry.activity.windows[window][ranking]);
+  return ranked.sort((a, b) => {
+    const difference = score(b) - score(a);
+    return difference === 0n ? b.pool.block_number - a.pool.block_number : difference > 0n ? 1 : -1;
+  });
+}
+
+// Record the sender of every swap transaction in an indexed pool (or one of the chunk's new pools)
+// on its events. Lookups that fail leave the trader unknown rather than failing the chunk.
+export async function resolveSwapTraders(network: Network, events: CoreEvent[], newPools: PoolInitializedEvent[]): Promise<void> {
+  const store = getStore();
+  const newPoolIds = new Set(newPools.map(pool => pool.pool_id));
+  const swaps = events.filter(event =>
+    event.type === "Swapped" && (newPoolIds.has(event.pool_id) || store.getPool(network, event.pool_id))
+  );
+  const transactionHashes = [...new Set(swaps.map(swap => swap.transaction_hash))];
+
+  const provider = getRpcProvider(network);
+  const senders = new Map<string, string>();
+  for (let i = 0; i < transactionHashes.length; i += TRADER_LOOKUP_CONCURRENCY) {
+    await Promise.all(transactionHashes.slice(i, i + TRADER_LOOKUP_CONCURRENCY).map(async transactionHash => {
+      try {
+        const transaction = await provider.getTransactionByHash(transactionHash);
+        if ("sender_address" in transaction && transaction.sender_address) {
+          senders.set(transactionHash, normalizeAddress(transaction.sender_address));
+        }
+      } catch (error) {
+        logger.warn("Could not look up the sender of a swap", { network, transaction_hash: transactionHash, error });
+      }
+    }));
+  }
+
+  for (const swap of swaps) {
+    if (swap.type === "Swapped") {
+      swap.trader = senders.get(swap.transaction_hash);
+    }
+  }
+}
+
+// First block of each window, up to the last indexed block since aggregates stop there
+async function getWindowStartBlocks(network: Network): Promise<Record<SwapWindow, number>> {
+  const cached = windowStartCache.get(network);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.blocks;
+  }
+
+  const head = getStore().getCursor(network)?.blockNumber ?? 0;
+  const now = Math.floor(Date.now() / 1000);
+  const blocks = {
+    "1h": await findFirstBlockAtOrAfter(network, now - SWAP_WINDOWS["1h"], head),
+    "24h": await findFirstBlockAtOrAfter(network, now - SWAP_WINDOWS["24h"], head),
+    "7d": await findFirstBlockAtOrAfter(network, now - SWAP_WINDOWS["7d"], head),
+  };
+  setBounded(windowStartCache, network, { blocks, expiresAt: Date.now() + WINDOW_START_TTL_MS });
+
+  return blocks;
+}
+
+// Address of a quote token given as an address or a symbol. Symbols only resolve to verified
+// tokens, since anyone can deploy a token with the symbol of another.
+function resolveQuoteToken(quoteToken: string, network: Network): string {
+  if (quoteToken.startsWith("0x")) {
+    return normalizeAddress(quoteToken);
+  }
+
+  const verified = findTokensBySymbol(quoteToken, network).filter(token => token.verified);
+  if (verified.length !== 1) {
+    throw new Error(verified.length === 0
+      ? `No verified token has the symbol ${quoteToken}; pass the quote token's address instead`
+      : `Several verified tokens have the symbol ${quoteToken}; pass the quote token's address instead`);
+  }
+  return verified[0].address;
+}
+
+function getQuoteSide(pool: PoolInitializedEvent, quoteAddress: string): 0 | 1 | undefined {
+  if (normalizeAddress(pool.pool_key.token0) === quoteAddress) {
+    return 0;
+  }
+  return normalizeAddress(pool.pool_key.token1) === quoteAddress ? 1 : undefined;
+}
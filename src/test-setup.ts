@@ -0,0 +1,13 @@
+/**
+ * Preloaded by `bun test` (see bunfig.toml) before any test imports the config.
+ *
+ * Tests run against an in-memory database and answer every RPC call from the
+ * fixtures under fixtures/rpc, so they never reach a Starknet node. Tests that
+ * need other settings change them on the `config` object.
+ */
+
+process.env.DATABASE_PATH = ":memory:";
+process.env.RPC_MODE = "replay";
+process.env.RPC_FIXTURES_DIR = "./fixtures/rpc";
+process.env.INDEXER_NETWORKS = "mainnet";
+process.env.LOG_LEVEL = process.env.LOG_LEVEL ?? "error";
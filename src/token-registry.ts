@@ -0,0 +1,243 @@
+import { readFileSync } from "node:fs";
+import { addAddressPadding, byteArray, shortString } from "starknet";
+import { config, getNetworkConfig, Network } from "./config";
+import { logger } from "./logger";
+import { recordCacheLookup } from "./metrics";
+import { getRpcProvider } from "./rpc";
+import { getStore, setBounded } from "./store";
+
+/**
+ * Token registry: name, symbol, decimals, total supply and verification
+ * status per token and network.
+ *
+ * Verified tokens are seeded from token lists in the starknet-addresses
+ * bridged_tokens format (see tokens/mainnet.json). Any other token is read
+ * from its contract the first time it is requested, refreshed after
+ * `config.tokens.refreshIntervalMs`, and failed lookups are retried with
+ * exponential backoff rather than remembered forever. A lookup that leaves
+ * the symbol or decimals unknown counts as failed, though what it did find
+ * is kept.
+ */
+
+export interface TokenMetadata {
+  address: string;
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  total_supply?: string;
+  // Listed in one of the configured token lists
+  verified: boolean;
+  source: "seed" | "contract";
+  updated_at: number;
+}
+
+// Entry of a starknet-addresses bridged_tokens list
+interface SeedToken {
+  name?: string;
+  symbol: string;
+  decimals?: number;
+  l2_token_address: string;
+}
+
+// In-memory cache in front of the store, keyed by network and normalized address
+const tokenCache = new Map<string, TokenMetadata>();
+// Backoff state for tokens whose contract lookup failed or came back incomplete
+const failedLookups = new Map<string, { failures: number; retryAt: number }>();
+// Lookups in flight, so concurrent requests for one token share a single set of RPC calls
+const pendingLookups = new Map<string, Promise<TokenMetadata | undefined>>();
+const seededNetworks = new Set<Network>();
+
+// Normalize an address to lowercase 0x + 64 hex characters
+export function normalizeAddress(address: string): string {
+  return addAddressPadding(address).toLowerCase();
+}
+
+// Symbol to display for a token, falling back to a shortened address
+export function getDisplaySymbol(address: string, token?: TokenMetadata): string {
+  return token?.symbol ?? address.slice(0, 6) + "..." + address.slice(-4);
+}
+
+// Load the configured token list for a network into the store (once per process)
+export function loadTokenSeeds(network: Network): void {
+  if (seededNetworks.has(network)) {
+    return;
+  }
+  seededNetworks.add(network);
+
+  const seedFile = getNetworkConfig(network).tokenList;
+  if (!seedFile) {
+    return;
+  }
+
+  let seeds: SeedToken[];
+  try {
+    seeds = JSON.parse(readFileSync(seedFile, "utf8"));
+  } catch (error) {
+    logger.warn("Could not load token list", { network, file: seedFile, error });
+    return;
+  }
+
+  const store = getStore();
+  for (const seed of seeds) {
+    const address = normalizeAddress(seed.l2_token_address);
+    const existing = store.getToken(network, address);
+
+    // Listed metadata wins over what contracts report, but keep anything the list lacks
+    store.saveToken(network, {
+      ...existing,
+      address,
+      name: seed.name ?? existing?.name,
+      symbol: seed.symbol,
+      decimals: seed.decimals ?? existing?.decimals,
+      verified: true,
+      source: "seed",
+      updated_at: existing?.updated_at ?? 0,
+    });
+    tokenCache.delete(`${network}:${address}`);
+  }
+
+  logger.info("Loaded verified tokens", { network, file: seedFile, count: seeds.length });
+}
+
+// Get token metadata, reading the contract if we don't have it (or it is stale)
+export async function getToken(address: string, network: Network = "mainnet"): Promise<TokenMetadata | undefined> {
+  loadTokenSeeds(network);
+
+  const normalizedAddress = normalizeAddress(address);
+  const cacheKey = `${network}:${normalizedAddress}`;
+
+  let token = tokenCache.get(cacheKey) ?? getStore().getToken(network, normalizedAddress);
+  if (token) {
+    setBounded(tokenCache, cacheKey, token);
+  }
+
+  const isComplete = token?.symbol !== undefined && token.decimals !== undefined;
+  const isFresh = token !== undefined && Date.now() - token.updated_at < config.tokens.refreshIntervalMs;
+  recordCacheLookup("tokens", Boolean(token && isComplete && isFresh));
+  if (token && isComplete && isFresh) {
+    return token;
+  }
+
+  const failure = failedLookups.get(cacheKey);
+  if (failure && Date.now() < failure.retryAt) {
+    return token;
+  }
+
+  let lookup = pendingLookups.get(cacheKey);
+  if (!lookup) {
+    lookup = refreshToken(normalizedAddress, network, token).finally(() => pendingLookups.delete(cacheKey));
+    pendingLookups.set(cacheKey, lookup);
+  }
+
+  return lookup;
+}
+
+// Whether a token is listed in the configured token list, without any RPC calls
+export function isVerifiedToken(address: string, network: Network = "mainnet"): boolean {
+  loadTokenSeeds(network);
+
+  const normalizedAddress = normalizeAddress(address);
+  const token = tokenCache.get(`${network}:${normalizedAddress}`) ?? getStore().getToken(network, normalizedAddress);
+  return token?.verified ?? false;
+}
+
+// Known tokens with a symbol (case-insensitive), verified ones first
+export function findTokensBySymbol(symbol: string, network: Network = "mainnet"): TokenMetadata[] {
+  loadTokenSeeds(network);
+  return getStore().getTokensBySymbol(network, symbol);
+}
+
+// Read metadata from the token contract and merge it into what we already know
+async function refreshToken(
+  address: string,
+  network: Network,
+  existing: TokenMetadata | undefined
+): Promise<TokenMetadata | undefined> {
+  const cacheKey = `${network}:${address}`;
+
+  try {
+    const fetched = await fetchTokenMetadata(address, network);
+
+    // Verified tokens keep their listed name, symbol and decimals
+    const token: TokenMetadata = existing?.verified
+      ? {
+          ...existing,
+          name: existing.name ?? fetched.name,
+          symbol: existing.symbol ?? fetched.symbol,
+          decimals: existing.decimals ?? fetched.decimals,
+          total_supply: fetched.total_supply ?? existing.total_supply,
+          updated_at: Date.now(),
+        }
+      : {
+          ...fetched,
+          address,
+          verified: false,
+          source: "contract",
+          updated_at: Date.now(),
+        };
+
+    getStore().saveToken(network, token);
+    setBounded(tokenCache, cacheKey, token);
+
+    if (token.symbol === undefined || token.decimals === undefined) {
+      const { failures, delay } = backOff(cacheKey);
+      logger.warn("Token metadata is incomplete", { network, token: address, symbol: token.symbol, decimals: token.decimals, attempt: failures, retry_in_seconds: Math.round(delay / 1000) });
+    } else {
+      failedLookups.delete(cacheKey);
+      logger.debug("Fetched token metadata from contract", { network, token: address, symbol: token.symbol, decimals: token.decimals });
+    }
+
+    return token;
+  } catch (error) {
+    const { failures, delay } = backOff(cacheKey);
+    logger.warn("Could not fetch token metadata", { network, token: address, attempt: failures, retry_in_seconds: Math.round(delay / 1000), error });
+    return existing;
+  }
+}
+
+// Delay the next lookup of a token, doubling the delay after each consecutive failure
+function backOff(cacheKey: string): { failures: number; delay: number } {
+  const failures = (failedLookups.get(cacheKey)?.failures ?? 0) + 1;
+  const delay = Math.min(config.tokens.retryBaseMs * 2 ** (failures - 1), config.tokens.refreshIntervalMs);
+  failedLookups.set(cacheKey, { failures, retryAt: Date.now() + delay });
+  return { failures, delay };
+}
+
+// Call the ERC20 views directly; name and symbol may be short strings or ByteArrays
+async function fetchTokenMetadata(address: string, network: Network): Promise<Omit<TokenMetadata, "address" | "verified" | "source" | "updated_at">> {
+  const provider = getRpcProvider(network);
+  const call = (entrypoint: string) => provider.callContract({ contractAddress: address, entrypoint }, "latest");
+
+  const [name, symbol, decimals, totalSupply] = await Promise.allSettled([
+    call("name").then(decodeString),
+    call("symbol").then(decodeString),
+    call("decimals").then(([felt]) => Number(BigInt(felt))),
+    // Cairo 1 tokens use snake_case, older ones camelCase
+    call("total_supply").catch(() => call("totalSupply")).then(([low, high = "0x0"]) => ((BigInt(high) << 128n) + BigInt(low)).toString()),
+  ]);
+
+  if (symbol.status === "rejected" && decimals.status === "rejected") {
+    throw symbol.reason;
+  }
+
+  return {
+    name: name.status === "fulfilled" ? name.value : undefined,
+    symbol: symbol.status === "fulfilled" ? symbol.value : undefined,
+    decimals: decimals.status === "fulfilled" ? decimals.value : undefined,
+    total_supply: totalSupply.status === "fulfilled" ? totalSupply.value : undefined,
+  };
+}
+
+// Decode a felt short string or a serialized ByteArray (data_len, data..., pending_word, pending_word_len)
+function decodeString(result: string[]): string {
+  if (result.length === 1) {
+    return shortString.decodeShortString(result[0]);
+  }
+
+  const dataLength = Number(BigInt(result[0]));
+  return byteArray.stringFromByteArray({
+    data: result.slice(1, 1 + dataLength),
+    pending_word: result[1 + dataLength],
+    pending_word_len: Number(BigInt(result[2 + dataLength])),
+  });
+}
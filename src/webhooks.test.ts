@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { config } from "./config";
+import type { PoolInitializedEvent } from "./pool-events";
+import { getStore } from "./store";
+import { createSubscription, dispatchDueDeliveries, enqueueDeliveries, signPayload } from "./webhooks";
+
+// Requests seen by the local receiver, and the statuses it answers with, in order
+const received: Request[] = [];
+const bodies: string[] = [];
+let replies: number[] = [];
+
+let receiver: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  config.webhooks.maxAttempts = 3;
+  // Retries are due straight away, so each dispatch attempts them again
+  config.webhooks.retryBaseMs = 0;
+  // The receiver runs on this machine, which subscriptions may only reach when allowed
+  config.webhooks.allowedHosts = ["localhost"];
+
+  receiver = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      received.push(request);
+      bodies.push(await request.text());
+      return new Response(null, { status: replies.shift() ?? 200 });
+    },
+  });
+});
+
+afterAll(() => {
+  receiver.stop(true);
+  config.webhooks.allowedHosts = [];
+});
+
+function makePool(poolId: string): PoolInitializedEvent {
+  return {
+    pool_id: poolId,
+    pool_key: {
+      token0: "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+      token1: "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+      fee: "170141183460469235273462165868118016",
+      tick_spacing: 1000,
+      extension: "0x0",
+    },
+    initial_tick: -19519455,
+    sqrt_ratio: "19278828734622376843914598215917568",
+    block_number: 1000,
+    block_hash: "0xb1",
+    transaction_hash: `0xt${poolId}`,
+    timestamp: Math.floor(Date.now() / 1000) + 60,
+    finality: "accepted_on_l2",
+  };
+}
+
+test("delivers a signed payload for a matching pool", async () => {
+  const subscription = await createSubscription("mainnet", `http://localhost:${receiver.port}/hooks`, {});
+  const pool = makePool("0x1");
+  received.length = 0;
+  bodies.length = 0;
+
+  enqueueDeliveries("mainnet", [pool]);
+  await dispatchDueDeliveries();
+
+  expect(received).toHaveLength(1);
+  const [request] = received;
+  const timestamp = Number(request.headers.get("X-Webhook-Timestamp"));
+  expect(request.method).toBe("POST");
+  expect(request.headers.get("Content-Type")).toBe("application/json");
+  expect(request.headers.get("X-Webhook-Signature")).toBe(signPayload(subscription.secret, timestamp, bodies[0]));
+  expect(JSON.parse(bodies[0])).toEqual({
+    type: "pool.initialized",
+    subscription_id: subscription.id,
+    network: "mainnet",
+    pool,
+  });
+
+  // A pool is only ever queued once per subscription
+  enqueueDeliveries("mainnet", [pool]);
+  await dispatchDueDeliveries();
+  expect(received).toHaveLength(1);
+
+  getStore().deleteSubscription(subscription.id);
+});
+
+test("retries non-2xx replies and moves the delivery to dead letters", async () => {
+  const subscription = await createSubscription("mainnet", `http://localhost:${receiver.port}/hooks`, {});
+  received.length = 0;
+  bodies.length = 0;
+  replies = [500, 503, 404];
+
+  enqueueDeliveries("mainnet", [makePool("0x2")]);
+  await dispatchDueDeliveries();
+  expect(getStore().getDeadLetters(subscription.id)).toHaveLength(0);
+  await dispatchDueDeliveries();
+  expect(getStore().getDeadLetters(subscription.id)).toHaveLength(0);
+  await dispatchDueDeliveries();
+
+  expect(received).toHaveLength(3);
+  // Every attempt carries the same body
+  expect(new Set(bodies).size).toBe(1);
+
+  const [deadLetter] = getStore().getDeadLetters(subscription.id);
+  expect(deadLetter.status).toBe("dead");
+  expect(deadLetter.attempts).toBe(3);
+  expect(deadLetter.last_error).toBe("HTTP 404");
+
+  // Dead letters are not attempted again
+  await dispatchDueDeliveries();
+  expect(received).toHaveLength(3);
+
+  getStore().deleteSubscription(subscription.id);
+});
+
+test("skips pools that don't match the filter or predate the subscription", async () => {
+  const subscription = await createSubscription("mainnet", `http://localhost:${receiver.port}/hooks`, { tickSpacing: 1 });
+  received.length = 0;
+
+  const otherTickSpacing = makePool("0x3");
+  const oldPool = { ...makePool("0x4"), timestamp: 1 };
+  oldPool.pool_key = { ...oldPool.pool_key, tick_spacing: 1 };
+  enqueueDeliveries("mainnet", [otherTickSpacing, oldPool]);
+  await dispatchDueDeliveries();
+
+  expect(received).toHaveLength(0);
+
+  getStore().deleteSubscription(subscription.id);
+});
+
+test("rejects hosts that resolve to non-public addresses unless they are allowed", async () => {
+  for (const url of ["http://127.0.0.1/hooks", "http://10.1.2.3/hooks", "http://169.254.169.254/latest", "http://[::1]/hooks", "http://[::ffff:192.168.0.1]/hooks"]) {
+    await expect(createSubscription("mainnet", url, {})).rejects.toThrow("resolves to a non-public address");
+  }
+  // Hosts that don't resolve are rejected too
+  await expect(createSubscription("mainnet", "http://webhooks.invalid/hooks", {})).rejects.toThrow("Could not resolve");
+
+  // A host that is no longer allowed is not delivered to
+  const subscription = await createSubscription("mainnet", `http://localhost:${receiver.port}/hooks`, {});
+  received.length = 0;
+  config.webhooks.allowedHosts = [];
+  try {
+    await expect(createSubscription("mainnet", `http://localhost:${receiver.port}/hooks`, {})).rejects.toThrow("resolves to a non-public address");
+
+    enqueueDeliveries("mainnet", [makePool("0x5")]);
+    for (let attempt = 0; attempt < config.webhooks.maxAttempts; attempt++) {
+      await dispatchDueDeliveries();
+    }
+
+    expect(received).toHaveLength(0);
+    expect(getStore().getDeadLetters(subscription.id)[0].last_error).toBe("Webhook host localhost resolves to a non-public address");
+  } finally {
+    config.webhooks.allowedHosts = ["localhost"];
+    getStore().deleteSubscription(subscription.id);
+  }
+});
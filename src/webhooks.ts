@@ -0,0 +1,263 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList } from "node:net";
+import cron from "node-cron";
+import { config, Network } from "./config";
+import { onPoolsIndexed } from "./indexer";
+import { logger } from "./logger";
+import type { PoolInitializedEvent } from "./pool-events";
+import { matchesPoolFilter, PoolFilter, validatePoolFilter } from "./pool-filters";
+import { getStore } from "./store";
+
+/**
+ * Webhook push notifications for newly indexed pools.
+ *
+ * Subscribers register a URL and a pool filter. Whenever the indexer ingests
+ * pools created after a subscription, a delivery is queued in the store for
+ * every matching subscriber and POSTed as JSON. Bodies are signed with the
+ * subscription secret:
+ *
+ *   X-Webhook-Signature: sha256=HMAC_SHA256(secret, `${X-Webhook-Timestamp}.${body}`)
+ *
+ * Failed deliveries are retried with exponential backoff and become dead
+ * letters after `config.webhooks.maxAttempts`. Deliveries are unique per
+ * subscription and pool, so pools re-ingested after a reorg are not sent twice.
+ *
+ * Webhook hosts must resolve to public addresses only, both when subscribing
+ * and before every delivery, so subscribers can't reach services on our own
+ * network. Hosts in `config.webhooks.allowedHosts` are exempt.
+ */
+
+export interface WebhookSubscription {
+  id: string;
+  network: Network;
+  url: string;
+  secret: string;
+  filter: PoolFilter;
+  created_at: number;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export interface WebhookDelivery {
+  id: number;
+  subscription_id: string;
+  pool_id: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+// Deliveries attempted per dispatcher run
+const DELIVERY_BATCH_SIZE = 50;
+
+// Loopback, private, link-local, shared, multicast and reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+let dispatcherTask: cron.ScheduledTask | undefined;
+// Whether a dispatcher run is in flight, so slow receivers don't cause overlapping runs
+let dispatching = false;
+
+// Queue deliveries for new pools and retry due deliveries in the background
+export function startWebhookDispatcher(): void {
+  onPoolsIndexed((network, pools) => {
+    enqueueDeliveries(network, pools);
+    void dispatchDueDeliveries();
+  });
+
+  dispatcherTask = cron.schedule(`*/${config.webhooks.dispatchIntervalSeconds} * * * * *`, () => {
+    void dispatchDueDeliveries();
+  });
+
+  logger.info("Webhook dispatcher started", { interval_seconds: config.webhooks.dispatchIntervalSeconds });
+}
+
+export function stopWebhookDispatcher(): void {
+  dispatcherTask?.stop();
+  dispatcherTask = undefined;
+}
+
+// Register a webhook; the returned secret is only ever shown here
+export async function createSubscription(network: Network, url: string, filter: PoolFilter): Promise<WebhookSubscription> {
+  if (!config.indexer.networks.includes(network)) {
+    throw new Error(`Network ${network} is not indexed (add it to INDEXER_NETWORKS)`);
+  }
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    throw new Error(`Invalid webhook URL: ${url}`);
+  }
+  if (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") {
+    throw new Error("Webhook URL must use http or https");
+  }
+  await assertPublicHost(parsedUrl);
+
+  validatePoolFilter(filter);
+
+  const subscription: WebhookSubscription = {
+    id: randomBytes(16).toString("hex"),
+    network,
+    url: parsedUrl.toString(),
+    secret: randomBytes(32).toString("hex"),
+    filter,
+    created_at: Date.now(),
+  };
+  getStore().saveSubscription(subscription);
+
+  logger.info("Webhook subscription created", { network, subscription_id: subscription.id, url: subscription.url });
+
+  return subscription;
+}
+
+// Look up a subscription, checking the caller knows its secret
+export function getSubscription(id: string, secret: string): WebhookSubscription {
+  const subscription = getStore().getSubscription(id);
+  if (!subscription || !secretsMatch(subscription.secret, secret)) {
+    throw new Error(`Unknown subscription ${id} or wrong secret`);
+  }
+  return subscription;
+}
+
+export function deleteSubscription(id: string, secret: string): void {
+  getSubscription(id, secret);
+  getStore().deleteSubscription(id);
+
+  logger.info("Webhook subscription removed", { subscription_id: id });
+}
+
+// Sign a webhook body for a given timestamp (unix seconds)
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Queue a delivery for every subscription matching a pool created after it
+export function enqueueDeliveries(network: Network, pools: PoolInitializedEvent[]): void {
+  const store = getStore();
+  const now = Date.now();
+
+  for (const subscription of store.getSubscriptions(network)) {
+    for (const pool of pools) {
+      // Skip pools from the backfill or from before the subscription existed
+      if (pool.timestamp * 1000 < subscription.created_at || !matchesPoolFilter(pool, subscription.filter, network)) {
+        continue;
+      }
+
+      const payload = JSON.stringify({
+        type: "pool.initialized",
+        subscription_id: subscription.id,
+        network,
+        pool,
+      });
+      store.enqueueDelivery(subscription.id, pool.pool_id, payload, now);
+    }
+  }
+}
+
+// Attempt every delivery whose retry time has come
+export async function dispatchDueDeliveries(): Promise<void> {
+  if (dispatching) {
+    return;
+  }
+  dispatching = true;
+
+  try {
+    const deliveries = getStore().getDueDeliveries(Date.now(), DELIVERY_BATCH_SIZE);
+    await Promise.all(deliveries.map(attemptDelivery));
+  } catch (error) {
+    logger.error("Webhook dispatch failed", { error });
+  } finally {
+    dispatching = false;
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const store = getStore();
+  const subscription = store.getSubscription(delivery.subscription_id);
+  if (!subscription) {
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    // Checked again on every attempt, since the host may resolve differently than when subscribing
+    await assertPublicHost(new URL(subscription.url));
+
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery.id.toString(),
+        "X-Webhook-Timestamp": timestamp.toString(),
+        "X-Webhook-Signature": signPayload(subscription.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      // A redirect could point at an address the host check would reject
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    store.updateDelivery(delivery.id, { status: "delivered", attempts, next_attempt_at: 0, updated_at: Date.now() });
+
+    logger.debug("Webhook delivered", { subscription_id: subscription.id, pool_id: delivery.pool_id, attempt: attempts });
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= config.webhooks.maxAttempts) {
+      store.updateDelivery(delivery.id, { status: "dead", attempts, next_attempt_at: 0, last_error: lastError, updated_at: Date.now() });
+      logger.warn("Webhook delivery moved to dead letters", { delivery_id: delivery.id, url: subscription.url, attempts, error: lastError });
+      return;
+    }
+
+    const delay = config.webhooks.retryBaseMs * 2 ** (attempts - 1);
+    store.updateDelivery(delivery.id, { status: "pending", attempts, next_attempt_at: Date.now() + delay, last_error: lastError, updated_at: Date.now() });
+
+    logger.debug("Webhook delivery failed, retrying", { delivery_id: delivery.id, url: subscription.url, retry_in_seconds: Math.round(delay / 1000), error: lastError });
+  }
+}
+
+// Reject hosts that resolve to any non-public address, unless they are allowed by config
+async function assertPublicHost(url: URL): Promise<void> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (config.webhooks.allowedHosts.includes(hostname)) {
+    return;
+  }
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(hostname, { all: true });
+  } catch {
+    throw new Error(`Could not resolve webhook host ${hostname}`);
+  }
+
+  if (addresses.some(({ address, family }) => NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"))) {
+    throw new Error(`Webhook host ${hostname} resolves to a non-public address`);
+  }
+}
+
+function secretsMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}